@@ -0,0 +1,193 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  apiKeyAuth,
+  basicAuth,
+  bearerAuth,
+  refreshableBearerAuth,
+  withAuth,
+} from "./auth";
+import { AuthError } from "./errors";
+import type { FetchRequest } from "./types";
+
+const request: FetchRequest = {
+  url: "https://api.example.com/me",
+  method: "GET",
+  headers: { Accept: "application/json" },
+};
+
+const authorization = (next: ReturnType<typeof vi.fn>, call = 0) =>
+  next.mock.calls[call][0].headers.Authorization;
+
+describe("bearerAuth", () => {
+  it("should add a bearer token", async () => {
+    const authorized = await bearerAuth("abc").authorize(request);
+    expect(authorized.headers).toEqual({
+      Accept: "application/json",
+      Authorization: "Bearer abc",
+    });
+  });
+
+  it("should resolve the token lazily", async () => {
+    const token = vi.fn().mockResolvedValue("fresh");
+    const authorized = await bearerAuth(token).authorize(request);
+
+    expect(token).toHaveBeenCalledTimes(1);
+    expect(authorized.headers?.Authorization).toBe("Bearer fresh");
+  });
+
+  it("should not override an Authorization header set on the call", async () => {
+    const own = { ...request, headers: { authorization: "Bearer mine" } };
+    expect(await bearerAuth("abc").authorize(own)).toBe(own);
+  });
+});
+
+describe("basicAuth", () => {
+  it("should encode UTF-8 credentials", async () => {
+    const authorized = await basicAuth("zoë", "pa:ss").authorize(request);
+    expect(authorized.headers?.Authorization).toBe("Basic em/DqzpwYTpzcw==");
+  });
+});
+
+describe("apiKeyAuth", () => {
+  it("should send the key in a header", async () => {
+    const authorized = await apiKeyAuth("k1").authorize(request);
+    expect(authorized.headers?.["X-API-Key"]).toBe("k1");
+  });
+
+  it("should send the key in the query", async () => {
+    const authorized = await apiKeyAuth("k 1", {
+      name: "api_key",
+      in: "query",
+    }).authorize({ ...request, url: "https://api.example.com/me?page=2" });
+
+    expect(authorized.url).toBe(
+      "https://api.example.com/me?page=2&api_key=k+1"
+    );
+    expect(authorized.headers).toEqual(request.headers);
+  });
+});
+
+describe("refreshableBearerAuth", () => {
+  it("should fetch a token on first use", async () => {
+    const refresh = vi.fn().mockResolvedValue("t1");
+    const auth = refreshableBearerAuth({ refresh });
+
+    await auth.authorize(request);
+    const authorized = await auth.authorize(request);
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(authorized.headers?.Authorization).toBe("Bearer t1");
+  });
+
+  it("should refresh once for concurrent 401s", async () => {
+    const refresh = vi.fn().mockResolvedValue("t2");
+    const auth = refreshableBearerAuth({ token: "t1", refresh });
+
+    const [a, b] = await Promise.all([
+      auth.authorize(request),
+      auth.authorize(request),
+    ]);
+    const unauthorized = new Response(null, { status: 401 });
+    const replays = await Promise.all([
+      auth.refresh?.(a, unauthorized),
+      auth.refresh?.(b, unauthorized),
+    ]);
+    const late = await auth.refresh?.(a, unauthorized);
+
+    expect(replays).toEqual([true, true]);
+    expect(late).toBe(true);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect((await auth.authorize(request)).headers?.Authorization).toBe(
+      "Bearer t2"
+    );
+  });
+
+  it("should not replay requests it didn't authorize", async () => {
+    const refresh = vi.fn();
+    const auth = refreshableBearerAuth({ token: "t1", refresh });
+    const own = { ...request, headers: { Authorization: "Bearer mine" } };
+
+    const replay = await auth.refresh?.(
+      await auth.authorize(own),
+      new Response(null, { status: 401 })
+    );
+
+    expect(replay).toBe(false);
+    expect(refresh).not.toHaveBeenCalled();
+  });
+
+  it("should surface refresh failures as AuthError", async () => {
+    const cause = new Error("invalid_grant");
+    const auth = refreshableBearerAuth({
+      refresh: vi.fn().mockRejectedValue(cause),
+    });
+
+    const error = await Promise.resolve(auth.authorize(request)).catch(
+      (e) => e
+    );
+
+    expect(error).toBeInstanceOf(AuthError);
+    expect(error.message).toBe(
+      "Token refresh failed: GET https://api.example.com/me"
+    );
+    expect(error.cause).toBe(cause);
+  });
+});
+
+describe("withAuth", () => {
+  it("should replay a 401 with the refreshed token", async () => {
+    const refresh = vi.fn().mockResolvedValue("t2");
+    const next = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(null, { status: 401 }))
+      .mockResolvedValueOnce(new Response("ok"));
+
+    const response = await withAuth(
+      refreshableBearerAuth({ token: "t1", refresh }),
+      request,
+      next
+    );
+
+    expect(response.status).toBe(200);
+    expect(authorization(next, 0)).toBe("Bearer t1");
+    expect(authorization(next, 1)).toBe("Bearer t2");
+  });
+
+  it("should replay at most once", async () => {
+    const next = vi
+      .fn()
+      .mockImplementation(async () => new Response(null, { status: 401 }));
+
+    const response = await withAuth(
+      refreshableBearerAuth({ token: "t1", refresh: async () => "t2" }),
+      request,
+      next
+    );
+
+    expect(response.status).toBe(401);
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it("should pass 401s through for providers that can't refresh", async () => {
+    const next = vi.fn().mockResolvedValue(new Response(null, { status: 401 }));
+
+    const response = await withAuth(bearerAuth("abc"), request, next);
+
+    expect(response.status).toBe(401);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not replay stream bodies", async () => {
+    const refresh = vi.fn().mockResolvedValue("t2");
+    const next = vi.fn().mockResolvedValue(new Response(null, { status: 401 }));
+
+    await withAuth(
+      refreshableBearerAuth({ token: "t1", refresh }),
+      { ...request, method: "POST", body: new ReadableStream() },
+      next
+    );
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(refresh).not.toHaveBeenCalled();
+  });
+});
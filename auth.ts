@@ -0,0 +1,145 @@
+import type { AuthProvider, FetchRequest, Next } from "./types";
+import { AuthError } from "./errors";
+import { isStreamBody } from "./body";
+import { getHeader } from "./utils";
+
+export type TokenSource = string | (() => string | Promise<string>);
+
+export type ApiKeyOptions = {
+  name?: string;
+  in?: "header" | "query";
+};
+
+export type RefreshableBearerOptions = {
+  token?: string;
+  refresh: () => Promise<string>;
+};
+
+const resolveToken = (token: TokenSource) =>
+  typeof token === "function" ? token() : token;
+
+// An Authorization header set on the call itself takes precedence.
+const withHeader = (
+  request: FetchRequest,
+  name: string,
+  value: string
+): FetchRequest =>
+  getHeader(request.headers, name) === undefined
+    ? { ...request, headers: { ...request.headers, [name]: value } }
+    : request;
+
+const encodeBase64 = (value: string) => {
+  let binary = "";
+  new TextEncoder()
+    .encode(value)
+    .forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+};
+
+export const bearerAuth = (token: TokenSource): AuthProvider => ({
+  authorize: async (request) =>
+    withHeader(request, "Authorization", `Bearer ${await resolveToken(token)}`),
+});
+
+export const basicAuth = (username: string, password: string): AuthProvider => {
+  const credentials = `Basic ${encodeBase64(`${username}:${password}`)}`;
+  return {
+    authorize: (request) => withHeader(request, "Authorization", credentials),
+  };
+};
+
+export const apiKeyAuth = (
+  key: TokenSource,
+  { name = "X-API-Key", in: location = "header" }: ApiKeyOptions = {}
+): AuthProvider => ({
+  authorize: async (request) => {
+    const value = await resolveToken(key);
+    if (location === "header") {
+      return withHeader(request, name, value);
+    }
+    const url = new URL(request.url);
+    url.searchParams.set(name, value);
+    return { ...request, url: url.toString() };
+  },
+});
+
+export const refreshableBearerAuth = (
+  options: RefreshableBearerOptions
+): AuthProvider => {
+  let current = options.token;
+  let refreshing: Promise<string> | undefined;
+  // Keyed by the exact request `authorize` returned, to know which token
+  // a rejected request carried.
+  const issued = new WeakMap<FetchRequest, string>();
+
+  const refreshToken = ({ method, url }: FetchRequest) => {
+    if (!refreshing) {
+      refreshing = Promise.resolve()
+        .then(options.refresh)
+        .then(
+          (token) => {
+            current = token;
+            return token;
+          },
+          (error) => {
+            throw new AuthError(`Token refresh failed: ${method} ${url}`, {
+              method,
+              url,
+              cause: error,
+            });
+          }
+        )
+        .finally(() => {
+          refreshing = undefined;
+        });
+    }
+    return refreshing;
+  };
+
+  return {
+    authorize: async (request) => {
+      const token = current ?? (await refreshToken(request));
+      const authorized = withHeader(
+        request,
+        "Authorization",
+        `Bearer ${token}`
+      );
+      if (authorized !== request) {
+        issued.set(authorized, token);
+      }
+      return authorized;
+    },
+    refresh: async (request) => {
+      const used = issued.get(request);
+      if (used === undefined) {
+        return false;
+      }
+      // Requests that failed with an already-replaced token just replay.
+      if (used === current) {
+        await refreshToken(request);
+      }
+      return true;
+    },
+  };
+};
+
+export const withAuth = async (
+  auth: AuthProvider,
+  request: FetchRequest,
+  next: Next
+): Promise<Response> => {
+  const authorized = await auth.authorize(request);
+  const response = await next(authorized);
+  if (
+    response.status !== 401 ||
+    !auth.refresh ||
+    // a consumed stream can't be replayed
+    isStreamBody(request.body) ||
+    !(await auth.refresh(authorized, response))
+  ) {
+    return response;
+  }
+
+  await response.body?.cancel();
+  return next(await auth.authorize(request));
+};
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { serializeBody } from "./body";
+
+describe("serializeBody", () => {
+  it("should return nothing for undefined", () => {
+    expect(serializeBody(undefined)).toEqual({});
+  });
+
+  it("should JSON-encode plain objects and arrays", () => {
+    expect(serializeBody({ a: 1 })).toEqual({
+      body: '{"a":1}',
+      contentType: "application/json",
+    });
+    expect(serializeBody([1, 2])).toEqual({
+      body: "[1,2]",
+      contentType: "application/json",
+    });
+  });
+
+  it("should send strings as plain text", () => {
+    expect(serializeBody("hello")).toEqual({
+      body: "hello",
+      contentType: "text/plain;charset=UTF-8",
+    });
+  });
+
+  it("should leave the Content-Type of FormData to fetch", () => {
+    const form = new FormData();
+    form.append("file", new Blob(["x"]), "x.txt");
+
+    const result = serializeBody(form);
+
+    expect(result.body).toBe(form);
+    expect(result.contentType).toBeUndefined();
+  });
+
+  it("should send URLSearchParams as a urlencoded form", () => {
+    const params = new URLSearchParams({ a: "1" });
+    expect(serializeBody(params)).toEqual({
+      body: params,
+      contentType: "application/x-www-form-urlencoded;charset=UTF-8",
+    });
+  });
+
+  it("should use the Blob type when present", () => {
+    const blob = new Blob(["<svg/>"], { type: "image/svg+xml" });
+    expect(serializeBody(blob).contentType).toBe("image/svg+xml");
+    expect(serializeBody(new Blob(["x"])).contentType).toBe(
+      "application/octet-stream"
+    );
+  });
+
+  it("should send binary data and streams as octet-stream", () => {
+    const buffer = new ArrayBuffer(4);
+    const bytes = new Uint8Array(4);
+    const stream = new ReadableStream();
+
+    expect(serializeBody(buffer)).toEqual({
+      body: buffer,
+      contentType: "application/octet-stream",
+    });
+    expect(serializeBody(bytes).body).toBe(bytes);
+    expect(serializeBody(stream).body).toBe(stream);
+  });
+});
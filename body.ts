@@ -0,0 +1,43 @@
+import type { Codec } from "./types";
+import { jsonCodec } from "./codec";
+
+export type SerializedBody = {
+  body?: BodyInit;
+  contentType?: string;
+};
+
+export const isStreamBody = (body: unknown): body is ReadableStream =>
+  typeof ReadableStream !== "undefined" && body instanceof ReadableStream;
+
+export const serializeBody = (
+  body: unknown,
+  codec: Codec = jsonCodec
+): SerializedBody => {
+  if (body === undefined) {
+    return {};
+  }
+  if (typeof body === "string") {
+    return { body, contentType: "text/plain;charset=UTF-8" };
+  }
+  if (body instanceof FormData) {
+    // fetch generates the multipart boundary itself
+    return { body };
+  }
+  if (body instanceof URLSearchParams) {
+    return {
+      body,
+      contentType: "application/x-www-form-urlencoded;charset=UTF-8",
+    };
+  }
+  if (body instanceof Blob) {
+    return { body, contentType: body.type || "application/octet-stream" };
+  }
+  if (
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body) ||
+    isStreamBody(body)
+  ) {
+    return { body: body as BodyInit, contentType: "application/octet-stream" };
+  }
+  return { body: codec.encode(body), contentType: codec.contentType };
+};
@@ -0,0 +1,233 @@
+import { describe, it, expect, vi } from "vitest";
+import { CircuitBreaker, isCircuitFailure } from "./breaker";
+import {
+  AbortError,
+  CircuitOpenError,
+  NetworkError,
+  TimeoutError,
+} from "./errors";
+import type { FetchRequest } from "./types";
+
+const request = (url = "https://api.example.com/items"): FetchRequest => ({
+  url,
+  method: "GET",
+});
+
+const ok = async () => new Response();
+const unavailable = async () => new Response(null, { status: 503 });
+const unreachable = async (): Promise<Response> => {
+  throw new NetworkError("Network error");
+};
+
+// what a request cut off by the client's timeout looks like
+const timedOut = () => {
+  const reason = new TimeoutError("Request timed out after 10ms", {
+    timeout: 10,
+  });
+  const controller = new AbortController();
+  controller.abort(reason);
+  return {
+    request: { ...request(), signal: controller.signal },
+    send: async (): Promise<Response> => {
+      throw reason;
+    },
+  };
+};
+
+const setup = (options = {}) => {
+  let time = 0;
+  const onStateChange = vi.fn();
+  const breaker = new CircuitBreaker(
+    {
+      minimumRequests: 2,
+      failureThreshold: 0.5,
+      resetTimeout: 1000,
+      onStateChange,
+      ...options,
+    },
+    () => time
+  );
+  const advance = (ms: number) => (time += ms);
+  return { breaker, onStateChange, advance };
+};
+
+describe("isCircuitFailure", () => {
+  it("should count network errors and 5xx responses", () => {
+    expect(isCircuitFailure({ error: new NetworkError("down") })).toBe(true);
+    expect(
+      isCircuitFailure({ response: new Response(null, { status: 500 }) })
+    ).toBe(true);
+    expect(
+      isCircuitFailure({ response: new Response(null, { status: 404 }) })
+    ).toBe(false);
+    expect(
+      isCircuitFailure({ error: new TimeoutError("slow", { timeout: 10 }) })
+    ).toBe(true);
+    expect(isCircuitFailure({ error: new AbortError("aborted") })).toBe(false);
+  });
+});
+
+describe("CircuitBreaker", () => {
+  it("should open once the failure rate reaches the threshold", async () => {
+    const { breaker, onStateChange } = setup();
+
+    await breaker.run(request(), ok);
+    await breaker.run(request(), unavailable);
+
+    expect(onStateChange).toHaveBeenCalledWith({
+      host: "api.example.com",
+      from: "closed",
+      to: "open",
+    });
+    const send = vi.fn(ok);
+    await expect(breaker.run(request(), send)).rejects.toThrow(
+      CircuitOpenError
+    );
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("should rethrow errors after recording them", async () => {
+    const { breaker } = setup();
+
+    await expect(breaker.run(request(), unreachable)).rejects.toThrow(
+      NetworkError
+    );
+    expect(breaker.status()).toEqual([
+      {
+        host: "api.example.com",
+        state: "closed",
+        requests: 1,
+        failures: 1,
+        openedAt: undefined,
+      },
+    ]);
+  });
+
+  it("should stay closed below the minimum number of requests", async () => {
+    const { breaker } = setup({ minimumRequests: 3 });
+
+    await breaker.run(request(), unavailable).catch(() => {});
+    await breaker.run(request(), unavailable);
+
+    expect(breaker.status()[0].state).toBe("closed");
+  });
+
+  it("should forget failures outside the window", async () => {
+    const { breaker, advance } = setup({ window: 1000 });
+
+    await breaker.run(request(), unavailable);
+    advance(1000);
+    await breaker.run(request(), ok);
+    await breaker.run(request(), ok);
+
+    expect(breaker.status()[0]).toMatchObject({ requests: 2, failures: 0 });
+  });
+
+  it("should close after a successful probe", async () => {
+    const { breaker, onStateChange, advance } = setup();
+    await breaker.run(request(), unavailable);
+    await breaker.run(request(), unavailable);
+
+    advance(1000);
+    await breaker.run(request(), ok);
+
+    expect(onStateChange.mock.calls.map(([change]) => change.to)).toEqual([
+      "open",
+      "half-open",
+      "closed",
+    ]);
+  });
+
+  it("should reopen after a failed probe", async () => {
+    const { breaker, advance } = setup();
+    await breaker.run(request(), unavailable);
+    await breaker.run(request(), unavailable);
+
+    advance(1000);
+    await breaker.run(request(), unreachable).catch(() => {});
+
+    expect(breaker.status()[0]).toMatchObject({
+      state: "open",
+      openedAt: 1000,
+    });
+  });
+
+  it("should only let the configured number of probes through", async () => {
+    const { breaker, advance } = setup();
+    await breaker.run(request(), unavailable);
+    await breaker.run(request(), unavailable);
+    advance(1000);
+
+    let finish: (response: Response) => void = () => {};
+    const probe = breaker.run(
+      request(),
+      () => new Promise((resolve) => (finish = resolve))
+    );
+    await expect(breaker.run(request(), ok)).rejects.toThrow(CircuitOpenError);
+
+    finish(new Response());
+    await probe;
+    expect(breaker.status()[0].state).toBe("closed");
+  });
+
+  it("should track hosts independently", async () => {
+    const { breaker } = setup();
+    await breaker.run(request(), unavailable);
+    await breaker.run(request(), unavailable);
+
+    await breaker.run(request("https://other.example.com/"), ok);
+
+    expect(breaker.status().map(({ host, state }) => [host, state])).toEqual([
+      ["api.example.com", "open"],
+      ["other.example.com", "closed"],
+    ]);
+  });
+
+  it("should ignore aborted requests and honour a custom predicate", async () => {
+    const { breaker } = setup({
+      failureThreshold: 0.9,
+      isFailure: ({ response }: { response?: Response }) =>
+        response?.status === 429,
+    });
+    const controller = new AbortController();
+    controller.abort();
+
+    await breaker
+      .run({ ...request(), signal: controller.signal }, unreachable)
+      .catch(() => {});
+    await breaker.run(request(), unavailable);
+    await breaker.run(
+      request(),
+      async () => new Response(null, { status: 429 })
+    );
+
+    expect(breaker.status()[0]).toMatchObject({ requests: 2, failures: 1 });
+  });
+
+  it("should count timeouts even though they abort the request", async () => {
+    const { breaker } = setup();
+
+    for (const attempt of [timedOut(), timedOut()]) {
+      await expect(breaker.run(attempt.request, attempt.send)).rejects.toThrow(
+        TimeoutError
+      );
+    }
+
+    expect(breaker.status()[0].state).toBe("open");
+  });
+
+  it("should reopen after a probe times out", async () => {
+    const { breaker, advance } = setup();
+    await breaker.run(request(), unavailable);
+    await breaker.run(request(), unavailable);
+
+    advance(1000);
+    const probe = timedOut();
+    await breaker.run(probe.request, probe.send).catch(() => {});
+
+    expect(breaker.status()[0]).toMatchObject({
+      state: "open",
+      openedAt: 1000,
+    });
+  });
+});
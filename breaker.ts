@@ -0,0 +1,141 @@
+import type {
+  CircuitBreakerOptions,
+  CircuitOutcome,
+  CircuitState,
+  CircuitStatus,
+  FetchRequest,
+} from "./types";
+import { CircuitOpenError, NetworkError, TimeoutError } from "./errors";
+
+type Circuit = {
+  state: CircuitState;
+  outcomes: { at: number; failed: boolean }[];
+  openedAt: number;
+  probes: number;
+};
+
+export const isCircuitFailure = ({ response, error }: CircuitOutcome) =>
+  error instanceof NetworkError || (!!response && response.status >= 500);
+
+export class CircuitBreaker {
+  private circuits = new Map<string, Circuit>();
+
+  constructor(
+    private options: CircuitBreakerOptions = {},
+    private now: () => number = Date.now
+  ) {}
+
+  private circuit(host: string) {
+    let circuit = this.circuits.get(host);
+    if (!circuit) {
+      circuit = { state: "closed", outcomes: [], openedAt: 0, probes: 0 };
+      this.circuits.set(host, circuit);
+    }
+    return circuit;
+  }
+
+  private transition(host: string, circuit: Circuit, to: CircuitState) {
+    const from = circuit.state;
+    circuit.state = to;
+    circuit.outcomes = [];
+    if (to === "open") {
+      circuit.openedAt = this.now();
+    }
+    this.options.onStateChange?.({ host, from, to });
+  }
+
+  private record(host: string, circuit: Circuit, failed: boolean) {
+    const {
+      failureThreshold = 0.5,
+      minimumRequests = 5,
+      window = 60000,
+    } = this.options;
+    const now = this.now();
+    circuit.outcomes = circuit.outcomes.filter(({ at }) => now - at < window);
+    circuit.outcomes.push({ at: now, failed });
+
+    const failures = circuit.outcomes.filter((outcome) => outcome.failed);
+    if (
+      circuit.outcomes.length >= minimumRequests &&
+      failures.length / circuit.outcomes.length >= failureThreshold
+    ) {
+      this.transition(host, circuit, "open");
+    }
+  }
+
+  async run(
+    request: FetchRequest,
+    send: () => Promise<Response>
+  ): Promise<Response> {
+    const { resetTimeout = 30000, halfOpenRequests = 1 } = this.options;
+    const { method, url } = request;
+    const host = new URL(url).host;
+    const circuit = this.circuit(host);
+
+    if (
+      circuit.state === "open" &&
+      this.now() - circuit.openedAt >= resetTimeout
+    ) {
+      this.transition(host, circuit, "half-open");
+    }
+    if (
+      circuit.state === "open" ||
+      (circuit.state === "half-open" && circuit.probes >= halfOpenRequests)
+    ) {
+      throw new CircuitOpenError(`Circuit open for ${host}: ${method} ${url}`, {
+        method,
+        url,
+        host,
+      });
+    }
+
+    const probe = circuit.state === "half-open";
+    if (probe) {
+      circuit.probes++;
+    }
+    let outcome: CircuitOutcome;
+    try {
+      outcome = { response: await send() };
+    } catch (error) {
+      outcome = { error };
+    }
+    if (probe) {
+      circuit.probes--;
+    }
+
+    // A caller's abort says nothing about the upstream's health, but a
+    // timeout (aborted with a TimeoutError) is exactly what a dead
+    // upstream looks like.
+    const { signal } = request;
+    if (!signal?.aborted || signal.reason instanceof TimeoutError) {
+      const failed = (this.options.isFailure ?? isCircuitFailure)(outcome);
+      if (probe && circuit.state === "half-open") {
+        this.transition(host, circuit, failed ? "open" : "closed");
+      } else if (circuit.state === "closed") {
+        this.record(host, circuit, failed);
+      }
+    }
+
+    if (!outcome.response) {
+      throw outcome.error;
+    }
+    return outcome.response;
+  }
+
+  status(): CircuitStatus[] {
+    const now = this.now();
+    const { window = 60000 } = this.options;
+    const statuses: CircuitStatus[] = [];
+    this.circuits.forEach((circuit, host) => {
+      const outcomes = circuit.outcomes.filter(({ at }) => now - at < window);
+      statuses.push({
+        host,
+        state: circuit.state,
+        requests: outcomes.length,
+        failures: outcomes.filter(({ failed }) => failed).length,
+        openedAt: circuit.state === "closed" ? undefined : circuit.openedAt,
+      });
+    });
+    return statuses;
+  }
+}
@@ -0,0 +1,191 @@
+import { describe, it, expect } from "vitest";
+import { HttpCache, MemoryCacheStore, parseCacheControl } from "./cache";
+import type { CacheEntry } from "./types";
+
+const request = { method: "GET", url: "https://api.example.com/users" };
+
+const entry = (overrides: Partial<CacheEntry> = {}): CacheEntry => ({
+  url: request.url,
+  status: 200,
+  statusText: "OK",
+  headers: [],
+  body: new ArrayBuffer(0),
+  vary: {},
+  storedAt: 0,
+  ...overrides,
+});
+
+describe("parseCacheControl", () => {
+  it("should parse flags and valued directives", () => {
+    expect(
+      parseCacheControl('max-age=60, No-Cache, stale-while-revalidate="30"')
+    ).toEqual({
+      "max-age": "60",
+      "no-cache": true,
+      "stale-while-revalidate": "30",
+    });
+  });
+
+  it("should return no directives for a missing header", () => {
+    expect(parseCacheControl(null)).toEqual({});
+  });
+});
+
+describe("MemoryCacheStore", () => {
+  it("should evict the least recently used entry", () => {
+    const store = new MemoryCacheStore(2);
+    store.set("a", entry());
+    store.set("b", entry());
+    store.get("a");
+    store.set("c", entry());
+
+    expect(store.get("a")).toBeDefined();
+    expect(store.get("b")).toBeUndefined();
+    expect(store.get("c")).toBeDefined();
+  });
+});
+
+describe("HttpCache", () => {
+  const store = async (headers: Record<string, string>, now = 0) => {
+    const cache = new HttpCache();
+    await cache.store(
+      request,
+      new Response("body", { status: 200, headers }),
+      now
+    );
+    return cache;
+  };
+
+  it("should serve entries within max-age as fresh", async () => {
+    const cache = await store({ "Cache-Control": "max-age=60" });
+
+    expect((await cache.lookup(request, 59000))?.state).toBe("fresh");
+    expect((await cache.lookup(request, 60000))?.state).toBe("revalidate");
+  });
+
+  it("should account for the Age header", async () => {
+    const cache = await store({ "Cache-Control": "max-age=60", Age: "50" });
+    expect((await cache.lookup(request, 10000))?.state).toBe("revalidate");
+  });
+
+  it("should fall back to Expires", async () => {
+    const cache = await store({ Expires: new Date(30000).toUTCString() });
+
+    expect((await cache.lookup(request, 29000))?.state).toBe("fresh");
+    expect((await cache.lookup(request, 31000))?.state).toBe("revalidate");
+  });
+
+  it("should serve stale entries within stale-while-revalidate", async () => {
+    const cache = await store({
+      "Cache-Control": "max-age=10, stale-while-revalidate=20",
+    });
+
+    expect((await cache.lookup(request, 15000))?.state).toBe("stale");
+    expect((await cache.lookup(request, 31000))?.state).toBe("revalidate");
+  });
+
+  it("should always revalidate no-cache responses", async () => {
+    const cache = await store({
+      "Cache-Control": "no-cache, max-age=60",
+      ETag: '"v1"',
+    });
+    expect((await cache.lookup(request, 0))?.state).toBe("revalidate");
+  });
+
+  it("should not store no-store or unvalidatable responses", async () => {
+    expect(
+      await (await store({ "Cache-Control": "no-store" })).lookup(request)
+    ).toBeUndefined();
+    expect(await (await store({})).lookup(request)).toBeUndefined();
+    expect(
+      await (
+        await store({ "Cache-Control": "max-age=60", Vary: "*" })
+      ).lookup(request)
+    ).toBeUndefined();
+  });
+
+  it("should match on Vary request headers", async () => {
+    const cache = new HttpCache();
+    const varied = { ...request, headers: { "Accept-Language": "en" } };
+    await cache.store(
+      varied,
+      new Response("hello", {
+        headers: { "Cache-Control": "max-age=60", Vary: "Accept-Language" },
+      }),
+      0
+    );
+
+    expect(await cache.lookup(varied, 0)).toBeDefined();
+    expect(
+      await cache.lookup(
+        { ...request, headers: { "accept-language": "de" } },
+        0
+      )
+    ).toBeUndefined();
+  });
+
+  it("should add conditional headers from stored validators", () => {
+    const cache = new HttpCache();
+    const stored = entry({
+      headers: [
+        ["etag", '"v1"'],
+        ["last-modified", "Wed, 21 Oct 2015 07:28:00 GMT"],
+      ],
+    });
+
+    expect(cache.withValidators(request, stored).headers).toEqual({
+      "If-None-Match": '"v1"',
+      "If-Modified-Since": "Wed, 21 Oct 2015 07:28:00 GMT",
+    });
+  });
+
+  it("should refresh metadata while keeping the stored body", async () => {
+    const cache = await store({ "Cache-Control": "max-age=10", ETag: '"v1"' });
+    const { entry: stale } = (await cache.lookup(request, 20000))!;
+
+    const refreshed = await cache.refresh(
+      request,
+      stale,
+      new Response(null, {
+        status: 304,
+        headers: { "Cache-Control": "max-age=100" },
+      }),
+      20000
+    );
+
+    expect(await cache.toResponse(refreshed).text()).toBe("body");
+    expect((await cache.lookup(request, 100000))?.state).toBe("fresh");
+  });
+
+  it("should build independent responses from an entry", async () => {
+    const cache = await store({ "Cache-Control": "max-age=60" });
+    const { entry: stored } = (await cache.lookup(request, 0))!;
+
+    expect(await cache.toResponse(stored).text()).toBe("body");
+    expect(await cache.toResponse(stored).text()).toBe("body");
+  });
+
+  it("should use a custom store", async () => {
+    const entries = new Map<string, CacheEntry>();
+    const cache = new HttpCache({
+      store: {
+        get: async (key) => entries.get(key),
+        set: async (key, value) => {
+          entries.set(key, value);
+        },
+        delete: async (key) => {
+          entries.delete(key);
+        },
+      },
+    });
+
+    await cache.store(
+      request,
+      new Response("x", { headers: { "Cache-Control": "max-age=60" } })
+    );
+
+    expect(entries.has("GET https://api.example.com/users")).toBe(true);
+    await cache.invalidate(request.url);
+    expect(entries.size).toBe(0);
+  });
+});
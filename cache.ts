@@ -0,0 +1,213 @@
+import type {
+  CacheEntry,
+  CacheOptions,
+  CacheStore,
+  FetchRequest,
+} from "./types";
+import { getHeader } from "./utils";
+
+export type CacheLookup = {
+  entry: CacheEntry;
+  state: "fresh" | "stale" | "revalidate";
+};
+
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = 100) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // re-insert so the Map's iteration order tracks recency
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+export const parseCacheControl = (
+  value: string | null
+): Record<string, string | true> => {
+  const directives: Record<string, string | true> = {};
+  value?.split(",").forEach((part) => {
+    const [name, ...rest] = part.trim().split("=");
+    if (name) {
+      directives[name.toLowerCase()] = rest.length
+        ? rest.join("=").replace(/^"|"$/g, "")
+        : true;
+    }
+  });
+  return directives;
+};
+
+const seconds = (value: string | true | undefined) => {
+  const parsed = typeof value === "string" ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const headerEntries = (headers: Headers) => {
+  const entries: [string, string][] = [];
+  headers.forEach((value, name) => entries.push([name, value]));
+  return entries;
+};
+
+export class HttpCache {
+  private storage: CacheStore;
+
+  constructor(options: CacheOptions = {}) {
+    this.storage = options.store ?? new MemoryCacheStore(options.maxEntries);
+  }
+
+  private key(request: Pick<FetchRequest, "method" | "url">) {
+    return `${request.method} ${request.url}`;
+  }
+
+  private matchesVary(request: FetchRequest, entry: CacheEntry) {
+    return Object.keys(entry.vary).every(
+      (name) => (getHeader(request.headers, name) ?? "") === entry.vary[name]
+    );
+  }
+
+  async lookup(
+    request: FetchRequest,
+    now = Date.now()
+  ): Promise<CacheLookup | undefined> {
+    const entry = await this.storage.get(this.key(request));
+    if (!entry || !this.matchesVary(request, entry)) {
+      return undefined;
+    }
+
+    const headers = new Headers(entry.headers);
+    const directives = parseCacheControl(headers.get("Cache-Control"));
+    const age = (now - entry.storedAt) / 1000;
+    const maxAge = directives["no-cache"] ? 0 : seconds(directives["max-age"]);
+    const expires = Date.parse(headers.get("Expires") ?? "");
+    const lifetime =
+      maxAge ?? (Number.isNaN(expires) ? 0 : (expires - entry.storedAt) / 1000);
+
+    if (age < lifetime) {
+      return { entry, state: "fresh" };
+    }
+    const staleWhileRevalidate = seconds(directives["stale-while-revalidate"]);
+    if (
+      !directives["no-cache"] &&
+      staleWhileRevalidate !== undefined &&
+      age < lifetime + staleWhileRevalidate
+    ) {
+      return { entry, state: "stale" };
+    }
+    return { entry, state: "revalidate" };
+  }
+
+  withValidators(request: FetchRequest, entry: CacheEntry): FetchRequest {
+    const headers = new Headers(entry.headers);
+    const etag = headers.get("ETag");
+    const lastModified = headers.get("Last-Modified");
+    const conditional: Record<string, string> = {};
+
+    if (etag && getHeader(request.headers, "If-None-Match") === undefined) {
+      conditional["If-None-Match"] = etag;
+    }
+    if (
+      lastModified &&
+      getHeader(request.headers, "If-Modified-Since") === undefined
+    ) {
+      conditional["If-Modified-Since"] = lastModified;
+    }
+
+    return Object.keys(conditional).length
+      ? { ...request, headers: { ...request.headers, ...conditional } }
+      : request;
+  }
+
+  async store(
+    request: FetchRequest,
+    response: Response,
+    now = Date.now()
+  ): Promise<void> {
+    const directives = parseCacheControl(response.headers.get("Cache-Control"));
+    const vary = response.headers.get("Vary");
+    const hasLifetime =
+      seconds(directives["max-age"]) !== undefined ||
+      response.headers.has("Expires");
+    const hasValidator =
+      response.headers.has("ETag") || response.headers.has("Last-Modified");
+    if (
+      response.status !== 200 ||
+      directives["no-store"] ||
+      vary?.trim() === "*" ||
+      (!hasLifetime && !hasValidator)
+    ) {
+      await this.storage.delete(this.key(request));
+      return;
+    }
+
+    const varied: Record<string, string> = {};
+    vary?.split(",").forEach((name) => {
+      const header = name.trim().toLowerCase();
+      if (header) {
+        varied[header] = getHeader(request.headers, header) ?? "";
+      }
+    });
+
+    const age = seconds(response.headers.get("Age") || undefined) ?? 0;
+    await this.storage.set(this.key(request), {
+      url: request.url,
+      status: response.status,
+      statusText: response.statusText,
+      headers: headerEntries(response.headers),
+      body: await response.clone().arrayBuffer(),
+      vary: varied,
+      storedAt: now - age * 1000,
+    });
+  }
+
+  // A 304 only carries updated metadata; the stored body stays valid.
+  async refresh(
+    request: FetchRequest,
+    entry: CacheEntry,
+    response: Response,
+    now = Date.now()
+  ): Promise<CacheEntry> {
+    const headers = new Headers(entry.headers);
+    response.headers.forEach((value, name) => {
+      if (name !== "content-length") {
+        headers.set(name, value);
+      }
+    });
+    const refreshed = {
+      ...entry,
+      headers: headerEntries(headers),
+      storedAt: now,
+    };
+    await this.storage.set(this.key(request), refreshed);
+    return refreshed;
+  }
+
+  async invalidate(url: string): Promise<void> {
+    await this.storage.delete(this.key({ method: "GET", url }));
+  }
+
+  toResponse(entry: CacheEntry): Response {
+    return new Response(entry.body.slice(0), {
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: entry.headers,
+    });
+  }
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  createSuperjsonCodec,
+  dateJsonCodec,
+  jsonCodec,
+  superjsonCodec,
+} from "./codec";
+
+class Money {
+  constructor(public amount: string) {}
+}
+
+describe("jsonCodec", () => {
+  it("should round-trip plain JSON", () => {
+    const value = { a: 1, b: ["x"] };
+    expect(jsonCodec.decode(jsonCodec.encode(value))).toEqual(value);
+    expect(jsonCodec.contentType).toBe("application/json");
+  });
+});
+
+describe("dateJsonCodec", () => {
+  it("should revive ISO date strings as Dates", () => {
+    const decoded = dateJsonCodec.decode(
+      '{"createdAt":"2024-01-02T03:04:05.000Z","offset":"2024-01-02T03:04:05+02:00","name":"2024"}'
+    ) as Record<string, unknown>;
+
+    expect(decoded.createdAt).toEqual(new Date("2024-01-02T03:04:05.000Z"));
+    expect(decoded.offset).toBeInstanceOf(Date);
+    expect(decoded.name).toBe("2024");
+  });
+
+  it("should leave date-only strings untouched", () => {
+    expect(dateJsonCodec.decode('{"day":"2024-01-02"}')).toEqual({
+      day: "2024-01-02",
+    });
+  });
+});
+
+describe("superjsonCodec", () => {
+  it("should produce the superjson wire format", () => {
+    const encoded = JSON.parse(
+      superjsonCodec.encode({ at: new Date(0), n: BigInt(10), plain: "s" })
+    );
+
+    expect(encoded).toEqual({
+      json: { at: "1970-01-01T00:00:00.000Z", n: "10", plain: "s" },
+      meta: { values: { at: ["Date"], n: ["bigint"] }, v: 1 },
+    });
+  });
+
+  it("should omit meta when nothing needs annotating", () => {
+    expect(superjsonCodec.encode({ a: 1 })).toBe('{"json":{"a":1}}');
+  });
+
+  it("should round-trip Dates, BigInt, Map, Set and friends", () => {
+    const value = {
+      at: new Date(0),
+      big: BigInt("9007199254740993"),
+      map: new Map<unknown, unknown>([
+        ["k", new Date(1)],
+        [{ id: 1 }, new Set([BigInt(2)])],
+      ]),
+      set: new Set([1, 2]),
+      nested: { "dotted.key": new Date(2), missing: undefined },
+      list: [new Date(3), 1],
+      pattern: /a\/b/gi,
+      infinite: Infinity,
+    };
+
+    expect(superjsonCodec.decode(superjsonCodec.encode(value))).toEqual(value);
+  });
+
+  it("should annotate transformed root values", () => {
+    const encoded = superjsonCodec.encode(new Date(0));
+
+    expect(JSON.parse(encoded)).toEqual({
+      json: "1970-01-01T00:00:00.000Z",
+      meta: { values: ["Date"], v: 1 },
+    });
+    expect(superjsonCodec.decode(encoded)).toEqual(new Date(0));
+  });
+
+  it("should support registered custom types", () => {
+    const codec = createSuperjsonCodec({
+      custom: [
+        {
+          name: "money",
+          isApplicable: (value): value is Money => value instanceof Money,
+          serialize: (value: Money) => value.amount,
+          deserialize: (value: string) => new Money(value),
+        },
+      ],
+    });
+
+    const encoded = codec.encode({ price: new Money("1.50") });
+
+    expect(JSON.parse(encoded).meta.values).toEqual({
+      price: [["custom", "money"]],
+    });
+    expect(codec.decode(encoded)).toEqual({ price: new Money("1.50") });
+  });
+
+  it("should reject annotation paths that don't exist in the payload", () => {
+    expect(() =>
+      superjsonCodec.decode(
+        '{"json":{"a":1},"meta":{"values":{"b.c":["Date"]}}}'
+      )
+    ).toThrow("Invalid annotation path: b.c");
+  });
+
+  it("should reject unknown custom types", () => {
+    expect(() =>
+      superjsonCodec.decode(
+        '{"json":{"a":1},"meta":{"values":{"a":[["custom","nope"]]}}}'
+      )
+    ).toThrow("Unknown custom type: nope");
+  });
+});
@@ -0,0 +1,224 @@
+import type { Codec } from "./types";
+import { isPlainObject } from "./utils";
+
+// Method syntax keeps a CustomType<Money, string> assignable to the
+// CustomType[] option.
+export type CustomType<T = unknown, S = unknown> = {
+  name: string;
+  isApplicable(value: unknown): value is T;
+  serialize(value: T): S;
+  deserialize(value: S): T;
+};
+
+export type SuperjsonCodecOptions = {
+  custom?: CustomType[];
+};
+
+type TypeAnnotation = string | ["custom", string];
+type Annotation = [TypeAnnotation] | [TypeAnnotation, AnnotationTree];
+type AnnotationTree = Record<string, Annotation>;
+
+const ISO_DATE =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+export const jsonCodec: Codec = {
+  contentType: "application/json",
+  encode: (value) => JSON.stringify(value),
+  decode: (text) => JSON.parse(text),
+};
+
+export const dateJsonCodec: Codec = {
+  contentType: "application/json",
+  encode: (value) => JSON.stringify(value),
+  decode: (text) =>
+    JSON.parse(text, (_key, value) =>
+      typeof value === "string" && ISO_DATE.test(value)
+        ? new Date(value)
+        : value
+    ),
+};
+
+const escapeKey = (key: string) =>
+  key.replace(/\\/g, "\\\\").replace(/\./g, "\\.");
+
+const parsePath = (path: string): string[] => {
+  const segments: string[] = [];
+  let current = "";
+  for (let i = 0; i < path.length; i++) {
+    const char = path[i];
+    if (char === "\\" && i + 1 < path.length) {
+      current += path[++i];
+    } else if (char === ".") {
+      segments.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  segments.push(current);
+  return segments;
+};
+
+// arrays included, since annotation paths index them by position
+const isContainer = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+// Produces the same wire format as superjson's `serialize`, so payloads
+// round-trip with servers that use superjson.
+export const createSuperjsonCodec = (
+  options: SuperjsonCodecOptions = {}
+): Codec => {
+  const custom = options.custom ?? [];
+
+  const walk = (
+    value: unknown,
+    path: string,
+    annotations: AnnotationTree
+  ): unknown => {
+    const annotate = (type: TypeAnnotation, inner?: AnnotationTree) => {
+      annotations[path] =
+        inner && Object.keys(inner).length ? [type, inner] : [type];
+    };
+    const childPath = (key: string | number) =>
+      path ? `${path}.${escapeKey(String(key))}` : escapeKey(String(key));
+
+    const customType = custom.find((type) => type.isApplicable(value));
+    if (customType) {
+      annotate(["custom", customType.name]);
+      return customType.serialize(value);
+    }
+    if (value === undefined) {
+      annotate("undefined");
+      return null;
+    }
+    if (typeof value === "bigint") {
+      annotate("bigint");
+      return value.toString();
+    }
+    if (typeof value === "number" && !Number.isFinite(value)) {
+      annotate("number");
+      return String(value);
+    }
+    if (typeof value === "number" && Object.is(value, -0)) {
+      annotate("number");
+      return "-0";
+    }
+    if (value instanceof Date) {
+      annotate("Date");
+      return value.toISOString();
+    }
+    if (value instanceof RegExp) {
+      annotate("regexp");
+      return String(value);
+    }
+    if (value instanceof Map) {
+      const inner: AnnotationTree = {};
+      const entries: unknown[] = [];
+      let index = 0;
+      value.forEach((entryValue, entryKey) => {
+        entries.push([
+          walk(entryKey, `${index}.0`, inner),
+          walk(entryValue, `${index}.1`, inner),
+        ]);
+        index++;
+      });
+      annotate("map", inner);
+      return entries;
+    }
+    if (value instanceof Set) {
+      const inner: AnnotationTree = {};
+      const items: unknown[] = [];
+      value.forEach((item) => {
+        items.push(walk(item, String(items.length), inner));
+      });
+      annotate("set", inner);
+      return items;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) =>
+        walk(item, childPath(index), annotations)
+      );
+    }
+    if (isPlainObject(value)) {
+      const result: Record<string, unknown> = {};
+      Object.keys(value).forEach((key) => {
+        result[key] = walk(value[key], childPath(key), annotations);
+      });
+      return result;
+    }
+    return value;
+  };
+
+  const revive = (value: unknown, [type, inner]: Annotation): unknown => {
+    const current = inner ? applyTree(value, inner) : value;
+    if (Array.isArray(type)) {
+      const customType = custom.find(({ name }) => name === type[1]);
+      if (!customType) {
+        throw new Error(`Unknown custom type: ${type[1]}`);
+      }
+      return customType.deserialize(current);
+    }
+    switch (type) {
+      case "undefined":
+        return undefined;
+      case "bigint":
+        return BigInt(String(current));
+      case "number":
+        return Number(current);
+      case "Date":
+        return new Date(String(current));
+      case "regexp": {
+        const source = String(current);
+        const body = source.slice(1, source.lastIndexOf("/"));
+        const flags = source.slice(source.lastIndexOf("/") + 1);
+        return new RegExp(body, flags);
+      }
+      case "map":
+        return new Map(Array.isArray(current) ? current : []);
+      case "set":
+        return new Set(Array.isArray(current) ? current : []);
+      default:
+        throw new Error(`Unknown type annotation: ${type}`);
+    }
+  };
+
+  const applyTree = (root: unknown, tree: AnnotationTree): unknown => {
+    Object.keys(tree).forEach((path) => {
+      const segments = parsePath(path);
+      const key = segments.pop() as string;
+      const parent = segments.reduce<unknown>(
+        (node, segment) => (isContainer(node) ? node[segment] : undefined),
+        root
+      );
+      if (!isContainer(parent)) {
+        throw new Error(`Invalid annotation path: ${path}`);
+      }
+      parent[key] = revive(parent[key], tree[path]);
+    });
+    return root;
+  };
+
+  return {
+    contentType: "application/json",
+    encode: (value) => {
+      const annotations: AnnotationTree = {};
+      const json = walk(value, "", annotations);
+      if (!Object.keys(annotations).length) {
+        return JSON.stringify({ json });
+      }
+      const values = annotations[""] ?? annotations;
+      return JSON.stringify({ json, meta: { values, v: 1 } });
+    },
+    decode: (text) => {
+      const { json, meta } = JSON.parse(text);
+      if (!meta?.values) {
+        return json;
+      }
+      return Array.isArray(meta.values)
+        ? revive(json, meta.values)
+        : applyTree(json, meta.values);
+    },
+  };
+};
+
+export const superjsonCodec = createSuperjsonCodec();
@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import { CookieJar, parseSetCookie } from "./cookies";
+
+const now = Date.UTC(2024, 0, 1);
+
+describe("parseSetCookie", () => {
+  it("should default to a host-only cookie on the request's directory", () => {
+    expect(
+      parseSetCookie("sid=abc", "https://example.com/account/login", now)
+    ).toEqual({
+      name: "sid",
+      value: "abc",
+      domain: "example.com",
+      path: "/account",
+      hostOnly: true,
+      secure: false,
+      httpOnly: false,
+      created: now,
+    });
+  });
+
+  it("should parse every attribute", () => {
+    const cookie = parseSetCookie(
+      "sid=a=b; Domain=.Example.com; Path=/; Expires=Wed, 01 Jan 2025 00:00:00 GMT; Secure; HttpOnly; SameSite=lax",
+      "https://api.example.com/",
+      now
+    );
+
+    expect(cookie).toMatchObject({
+      value: "a=b",
+      domain: "example.com",
+      path: "/",
+      hostOnly: false,
+      secure: true,
+      httpOnly: true,
+      sameSite: "Lax",
+      expires: Date.UTC(2025, 0, 1),
+    });
+  });
+
+  it("should prefer Max-Age over Expires", () => {
+    const cookie = parseSetCookie(
+      "a=1; Max-Age=60; Expires=Wed, 01 Jan 2025 00:00:00 GMT",
+      "https://example.com/",
+      now
+    );
+    expect(cookie?.expires).toBe(now + 60000);
+    expect(
+      parseSetCookie("a=1; Max-Age=0", "https://example.com/", now)?.expires
+    ).toBe(0);
+  });
+
+  it("should ignore invalid paths and unknown SameSite values", () => {
+    const cookie = parseSetCookie(
+      "a=1; Path=relative; SameSite=sometimes",
+      "https://example.com/docs/page",
+      now
+    );
+    expect(cookie?.path).toBe("/docs");
+    expect(cookie?.sameSite).toBeUndefined();
+  });
+
+  it("should reject cookies without a name or for a foreign domain", () => {
+    expect(parseSetCookie("novalue", "https://example.com/")).toBeUndefined();
+    expect(parseSetCookie("=x", "https://example.com/")).toBeUndefined();
+    expect(
+      parseSetCookie("a=1; Domain=other.com", "https://example.com/")
+    ).toBeUndefined();
+  });
+
+  it("should reject a top-level domain as the cookie Domain", () => {
+    expect(
+      parseSetCookie("a=1; Domain=com", "https://evil.com/")
+    ).toBeUndefined();
+    expect(
+      parseSetCookie("a=1; Domain=.COM", "https://evil.com/")
+    ).toBeUndefined();
+
+    const jar = new CookieJar();
+    jar.setCookie("a=1; Domain=com", "https://evil.com/", now);
+    expect(jar.getCookieHeader("https://api.bank.com/", now)).toBeUndefined();
+  });
+
+  it("should keep a single-label Domain equal to the host as host-only", () => {
+    const cookie = parseSetCookie("a=1; Domain=localhost", "http://localhost/");
+
+    expect(cookie).toMatchObject({ domain: "localhost", hostOnly: true });
+  });
+});
+
+describe("CookieJar", () => {
+  it("should send cookies matching domain, path and scheme", () => {
+    const jar = new CookieJar();
+    jar.setCookie("host=1", "https://example.com/", now);
+    jar.setCookie(
+      "wide=2; Domain=example.com; Path=/",
+      "https://example.com/",
+      now
+    );
+    jar.setCookie("docs=3; Path=/docs", "https://example.com/", now);
+    jar.setCookie("secure=4; Secure", "https://example.com/", now);
+
+    expect(jar.getCookieHeader("https://example.com/docs/a", now)).toBe(
+      "docs=3; host=1; wide=2; secure=4"
+    );
+    expect(jar.getCookieHeader("http://example.com/documents", now)).toBe(
+      "host=1; wide=2"
+    );
+    expect(jar.getCookieHeader("https://api.example.com/", now)).toBe("wide=2");
+    expect(jar.getCookieHeader("https://other.com/", now)).toBeUndefined();
+  });
+
+  it("should replace cookies and drop them once expired", () => {
+    const jar = new CookieJar();
+    jar.setCookie("a=1; Max-Age=10", "https://example.com/", now);
+    jar.setCookie("a=2; Max-Age=10", "https://example.com/", now);
+
+    expect(jar.getCookieHeader("https://example.com/", now)).toBe("a=2");
+    expect(
+      jar.getCookieHeader("https://example.com/", now + 10000)
+    ).toBeUndefined();
+  });
+
+  it("should delete a cookie set with a past expiry", () => {
+    const jar = new CookieJar();
+    jar.setCookie("a=1", "https://example.com/", now);
+    jar.setCookie("a=; Max-Age=0", "https://example.com/", now);
+
+    expect(jar.getCookies("https://example.com/", now)).toEqual([]);
+  });
+
+  it("should round-trip through JSON", () => {
+    const jar = new CookieJar();
+    jar.setCookie("sid=abc; HttpOnly", "https://example.com/");
+
+    const restored = new CookieJar(JSON.parse(JSON.stringify(jar)));
+
+    expect(restored.getCookieHeader("https://example.com/")).toBe("sid=abc");
+    expect(restored.toJSON()).toEqual(jar.toJSON());
+  });
+
+  it("should capture every Set-Cookie header", () => {
+    const jar = new CookieJar();
+    const headers = new Headers();
+    headers.append("Set-Cookie", "a=1; Expires=Wed, 01 Jan 2100 00:00:00 GMT");
+    headers.append("Set-Cookie", "b=2");
+
+    jar.capture("https://example.com/", headers);
+
+    expect(jar.getCookieHeader("https://example.com/")).toBe("a=1; b=2");
+  });
+
+  it("should merge with a Cookie header already on the request", () => {
+    const jar = new CookieJar();
+    jar.setCookie("a=1", "https://example.com/");
+
+    expect(
+      jar.apply({
+        url: "https://example.com/",
+        method: "GET",
+        headers: { cookie: "own=0" },
+      }).headers
+    ).toEqual({ cookie: "own=0; a=1" });
+  });
+});
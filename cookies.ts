@@ -0,0 +1,210 @@
+import type { Cookie, CookieStore, FetchRequest } from "./types";
+import { getHeader } from "./utils";
+
+const isIpAddress = (host: string) =>
+  /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.includes(":");
+
+const domainMatches = (host: string, domain: string) =>
+  host === domain || (!isIpAddress(host) && host.endsWith(`.${domain}`));
+
+const pathMatches = (path: string, cookiePath: string) =>
+  path === cookiePath ||
+  (path.startsWith(cookiePath) &&
+    (cookiePath.endsWith("/") || path[cookiePath.length] === "/"));
+
+// RFC 6265 §5.1.4: the request path up to, but not including, its last "/".
+const defaultPath = (path: string) => {
+  const last = path.lastIndexOf("/");
+  return last > 0 ? path.slice(0, last) : "/";
+};
+
+export const parseSetCookie = (
+  header: string,
+  url: string,
+  now = Date.now()
+): Cookie | undefined => {
+  const { hostname, pathname } = new URL(url);
+  const [pair, ...attributes] = header.split(";");
+  const separator = pair.indexOf("=");
+  const name = separator === -1 ? "" : pair.slice(0, separator).trim();
+  if (!name) {
+    return undefined;
+  }
+
+  const cookie: Cookie = {
+    name,
+    value: pair.slice(separator + 1).trim(),
+    domain: hostname,
+    path: defaultPath(pathname),
+    hostOnly: true,
+    secure: false,
+    httpOnly: false,
+    created: now,
+  };
+  let maxAge: number | undefined;
+
+  for (const attribute of attributes) {
+    const [key, ...rest] = attribute.split("=");
+    const value = rest.join("=").trim();
+    switch (key.trim().toLowerCase()) {
+      case "expires": {
+        const expires = Date.parse(value);
+        if (!Number.isNaN(expires)) {
+          cookie.expires = expires;
+        }
+        break;
+      }
+      case "max-age":
+        if (/^-?\d+$/.test(value)) {
+          maxAge = Number(value);
+        }
+        break;
+      case "domain": {
+        const domain = value.replace(/^\./, "").toLowerCase();
+        // A single-label Domain such as "com" is a public suffix; RFC 6265
+        // keeps it only as a host-only cookie for that exact host.
+        const singleLabel = !domain.includes(".");
+        if (domain && !(singleLabel && domain === hostname)) {
+          if (singleLabel || !domainMatches(hostname, domain)) {
+            return undefined;
+          }
+          cookie.domain = domain;
+          cookie.hostOnly = false;
+        }
+        break;
+      }
+      case "path":
+        if (value.startsWith("/")) {
+          cookie.path = value;
+        }
+        break;
+      case "secure":
+        cookie.secure = true;
+        break;
+      case "httponly":
+        cookie.httpOnly = true;
+        break;
+      case "samesite": {
+        const sameSite = value.toLowerCase();
+        if (
+          sameSite === "strict" ||
+          sameSite === "lax" ||
+          sameSite === "none"
+        ) {
+          cookie.sameSite = `${sameSite[0].toUpperCase()}${sameSite.slice(
+            1
+          )}` as Cookie["sameSite"];
+        }
+        break;
+      }
+    }
+  }
+
+  // Max-Age wins over Expires regardless of their order
+  if (maxAge !== undefined) {
+    cookie.expires = maxAge > 0 ? now + maxAge * 1000 : 0;
+  }
+  return cookie;
+};
+
+export class CookieJar implements CookieStore {
+  private cookies = new Map<string, Cookie>();
+
+  constructor(cookies: Cookie[] = []) {
+    cookies.forEach((cookie) => this.cookies.set(this.key(cookie), cookie));
+  }
+
+  private key({ domain, path, name }: Cookie) {
+    return `${domain};${path};${name}`;
+  }
+
+  private isExpired(cookie: Cookie, now: number) {
+    return cookie.expires !== undefined && cookie.expires <= now;
+  }
+
+  setCookie(header: string, url: string, now = Date.now()): void {
+    const cookie = parseSetCookie(header, url, now);
+    if (!cookie) {
+      return;
+    }
+    const key = this.key(cookie);
+    const existing = this.cookies.get(key);
+    this.cookies.delete(key);
+    if (!this.isExpired(cookie, now)) {
+      // a replaced cookie keeps its original creation time, per §5.3
+      this.cookies.set(key, { ...cookie, created: existing?.created ?? now });
+    }
+  }
+
+  getCookies(url: string, now = Date.now()): Cookie[] {
+    const { protocol, hostname, pathname } = new URL(url);
+    const matches: Cookie[] = [];
+    this.cookies.forEach((cookie, key) => {
+      if (this.isExpired(cookie, now)) {
+        this.cookies.delete(key);
+        return;
+      }
+      const domainOk = cookie.hostOnly
+        ? hostname === cookie.domain
+        : domainMatches(hostname, cookie.domain);
+      if (
+        domainOk &&
+        pathMatches(pathname, cookie.path) &&
+        (!cookie.secure || protocol === "https:")
+      ) {
+        matches.push(cookie);
+      }
+    });
+    return matches.sort(
+      (a, b) => b.path.length - a.path.length || a.created - b.created
+    );
+  }
+
+  getCookieHeader(url: string, now = Date.now()): string | undefined {
+    const cookies = this.getCookies(url, now);
+    return cookies.length
+      ? cookies.map(({ name, value }) => `${name}=${value}`).join("; ")
+      : undefined;
+  }
+
+  apply(request: FetchRequest, now = Date.now()): FetchRequest {
+    const cookies = this.getCookieHeader(request.url, now);
+    if (!cookies) {
+      return request;
+    }
+    const name =
+      Object.keys(request.headers ?? {}).find(
+        (header) => header.toLowerCase() === "cookie"
+      ) ?? "Cookie";
+    const existing = getHeader(request.headers, "Cookie");
+    return {
+      ...request,
+      headers: {
+        ...request.headers,
+        [name]: existing ? `${existing}; ${cookies}` : cookies,
+      },
+    };
+  }
+
+  capture(url: string, headers: Headers, now = Date.now()): void {
+    headers
+      .getSetCookie()
+      .forEach((header) => this.setCookie(header, url, now));
+  }
+
+  clear(): void {
+    this.cookies.clear();
+  }
+
+  // Session cookies are kept too, so a saved jar restores the login.
+  toJSON(): Cookie[] {
+    const now = Date.now();
+    const cookies: Cookie[] = [];
+    this.cookies.forEach((cookie) => {
+      if (!this.isExpired(cookie, now)) {
+        cookies.push(cookie);
+      }
+    });
+    return cookies;
+  }
+}
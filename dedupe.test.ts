@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from "vitest";
+import { RequestDeduper } from "./dedupe";
+
+const request = { method: "GET", url: "https://api.example.com/users/me" };
+
+const deferred = () => {
+  let resolve!: (response: Response) => void;
+  const promise = new Promise<Response>((r) => (resolve = r));
+  return { promise, resolve };
+};
+
+describe("RequestDeduper", () => {
+  describe("key", () => {
+    const deduper = new RequestDeduper();
+
+    it("should ignore header name case and order", () => {
+      expect(
+        deduper.key({ ...request, headers: { Accept: "a", "X-Id": "1" } })
+      ).toBe(
+        deduper.key({ ...request, headers: { "x-id": "1", accept: "a" } })
+      );
+    });
+
+    it("should differ for different headers or URLs", () => {
+      expect(
+        deduper.key({ ...request, headers: { Authorization: "a" } })
+      ).not.toBe(deduper.key({ ...request, headers: { Authorization: "b" } }));
+      expect(deduper.key(request)).not.toBe(
+        deduper.key({ ...request, url: `${request.url}?x=1` })
+      );
+    });
+
+    it("should only key idempotent requests without a body", () => {
+      expect(deduper.key({ ...request, method: "HEAD" })).toBeDefined();
+      expect(deduper.key({ ...request, method: "POST" })).toBeUndefined();
+      expect(deduper.key({ ...request, body: "x" })).toBeUndefined();
+    });
+  });
+
+  it("should share one call between concurrent callers", async () => {
+    const deduper = new RequestDeduper();
+    const { promise, resolve } = deferred();
+    const send = vi.fn(() => promise);
+
+    const first = deduper.run("k", request, send);
+    const second = deduper.run("k", request, send);
+    resolve(new Response("shared"));
+
+    const [a, b] = await Promise.all([first, second]);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(a).not.toBe(b);
+    expect(await a.text()).toBe("shared");
+    expect(await b.text()).toBe("shared");
+  });
+
+  it("should start a new call once the previous one settled", async () => {
+    const deduper = new RequestDeduper();
+    const send = vi.fn(async () => new Response("x"));
+
+    await deduper.run("k", request, send);
+    await deduper.run("k", request, send);
+
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("should reject every caller when the shared call fails", async () => {
+    const deduper = new RequestDeduper();
+    const error = new Error("boom");
+    const send = vi.fn(() => Promise.reject(error));
+
+    const results = await Promise.allSettled([
+      deduper.run("k", request, send),
+      deduper.run("k", request, send),
+    ]);
+
+    expect(results).toEqual([
+      { status: "rejected", reason: error },
+      { status: "rejected", reason: error },
+    ]);
+  });
+
+  it("should keep the shared call alive when one caller aborts", async () => {
+    const deduper = new RequestDeduper();
+    const { promise, resolve } = deferred();
+    const send = vi.fn(
+      (_: typeof request & { signal?: AbortSignal }) => promise
+    );
+    const aborting = new AbortController();
+    const staying = new AbortController();
+
+    const aborted = deduper.run(
+      "k",
+      { ...request, signal: aborting.signal },
+      send
+    );
+    const kept = deduper.run("k", { ...request, signal: staying.signal }, send);
+    aborting.abort("gone");
+    resolve(new Response("still here"));
+
+    await expect(aborted).rejects.toBe("gone");
+    expect(await (await kept).text()).toBe("still here");
+    expect(send.mock.calls[0][0].signal?.aborted).toBe(false);
+  });
+
+  it("should abort the shared call once every caller has aborted", async () => {
+    const deduper = new RequestDeduper();
+    const send = vi.fn(
+      (shared: typeof request & { signal?: AbortSignal }) =>
+        new Promise<Response>((_, reject) =>
+          shared.signal?.addEventListener("abort", () =>
+            reject(shared.signal?.reason)
+          )
+        )
+    );
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const a = deduper.run("k", { ...request, signal: first.signal }, send);
+    const b = deduper.run("k", { ...request, signal: second.signal }, send);
+    first.abort("first");
+    second.abort("second");
+
+    await expect(a).rejects.toBe("first");
+    await expect(b).rejects.toBe("second");
+    expect(send.mock.calls[0][0].signal?.aborted).toBe(true);
+  });
+});
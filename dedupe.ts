@@ -0,0 +1,100 @@
+import type { FetchRequest } from "./types";
+
+type Shared = {
+  promise: Promise<Response>;
+  controller: AbortController;
+  waiting: number;
+  settled: boolean;
+};
+
+const DEDUPE_METHODS = ["GET", "HEAD"];
+
+export class RequestDeduper {
+  private inflight = new Map<string, Shared>();
+
+  key(request: FetchRequest): string | undefined {
+    if (!DEDUPE_METHODS.includes(request.method) || request.body != null) {
+      return undefined;
+    }
+    const headers = Object.keys(request.headers ?? {})
+      .map((name) => [name.toLowerCase(), String(request.headers?.[name])])
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return JSON.stringify([request.method, request.url, headers]);
+  }
+
+  run(
+    key: string,
+    request: FetchRequest,
+    send: (request: FetchRequest) => Promise<Response>
+  ): Promise<Response> {
+    let shared = this.inflight.get(key);
+    if (!shared) {
+      // The shared request gets its own signal, aborted only once every
+      // caller waiting on it has given up.
+      const controller = new AbortController();
+      const created: Shared = {
+        controller,
+        waiting: 0,
+        settled: false,
+        promise: send(
+          request.signal ? { ...request, signal: controller.signal } : request
+        ),
+      };
+      created.promise
+        .finally(() => {
+          created.settled = true;
+          this.inflight.delete(key);
+        })
+        .catch(() => {});
+      this.inflight.set(key, created);
+      shared = created;
+    }
+
+    const current = shared;
+    const { signal } = request;
+    current.waiting++;
+
+    return new Promise<Response>((resolve, reject) => {
+      let done = false;
+      const leave = () => {
+        done = true;
+        current.waiting--;
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const onAbort = () => {
+        if (done) {
+          return;
+        }
+        leave();
+        if (current.waiting === 0 && !current.settled) {
+          current.controller.abort(signal?.reason);
+        }
+        reject(signal?.reason);
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      current.promise.then(
+        (response) => {
+          if (done) {
+            return;
+          }
+          leave();
+          // Everyone but the last caller gets a clone, so each one can
+          // read the body independently.
+          resolve(current.waiting === 0 ? response : response.clone());
+        },
+        (error) => {
+          if (!done) {
+            leave();
+            reject(error);
+          }
+        }
+      );
+    });
+  }
+}
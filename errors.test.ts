@@ -0,0 +1,211 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  AbortError,
+  AuthError,
+  CircuitOpenError,
+  ClientError,
+  HttpError,
+  NetworkError,
+  RateLimitError,
+  RequestError,
+  ServerError,
+  TimeoutError,
+  UnmatchedRequestError,
+  ValidationError,
+} from "./errors";
+
+describe("HttpError", () => {
+  it("should expose status, statusText, headers and request info", () => {
+    const headers = new Headers({ "X-Request-Id": "abc" });
+    const error = new HttpError("Unknown error: [300] (Multiple Choices)", {
+      status: 300,
+      statusText: "Multiple Choices",
+      headers,
+      method: "GET",
+      url: "https://api.example.com/users",
+    });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe("HttpError");
+    expect(error.status).toBe(300);
+    expect(error.statusText).toBe("Multiple Choices");
+    expect(error.headers.get("X-Request-Id")).toBe("abc");
+    expect(error.method).toBe("GET");
+    expect(error.url).toBe("https://api.example.com/users");
+  });
+
+  it("should default headers to an empty Headers instance", () => {
+    const error = new HttpError("error", { status: 400, statusText: "" });
+    expect(error.headers).toBeInstanceOf(Headers);
+  });
+
+  it("should read the body lazily and only once", async () => {
+    const readBody = vi.fn().mockResolvedValue({ message: "Invalid email" });
+    const error = new HttpError("error", {
+      status: 422,
+      statusText: "Unprocessable Entity",
+      readBody,
+    });
+
+    expect(readBody).not.toHaveBeenCalled();
+    expect(await error.body()).toEqual({ message: "Invalid email" });
+    expect(await error.body()).toEqual({ message: "Invalid email" });
+    expect(readBody).toHaveBeenCalledTimes(1);
+  });
+
+  it("should resolve body to undefined without a reader", async () => {
+    const error = new HttpError("error", { status: 400, statusText: "" });
+    expect(await error.body()).toBeUndefined();
+  });
+});
+
+describe("ClientError and ServerError", () => {
+  it("should be subclasses of HttpError", () => {
+    const clientError = new ClientError("error", {
+      status: 404,
+      statusText: "Not Found",
+    });
+    const serverError = new ServerError("error", {
+      status: 503,
+      statusText: "Service Unavailable",
+    });
+
+    expect(clientError).toBeInstanceOf(HttpError);
+    expect(clientError.name).toBe("ClientError");
+    expect(serverError).toBeInstanceOf(HttpError);
+    expect(serverError.name).toBe("ServerError");
+  });
+});
+
+describe("NetworkError", () => {
+  it("should keep the request info and underlying cause", () => {
+    const cause = new TypeError("fetch failed");
+    const error = new NetworkError("Network error", {
+      method: "POST",
+      url: "https://api.example.com/users",
+      cause,
+    });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).not.toBeInstanceOf(HttpError);
+    expect(error.name).toBe("NetworkError");
+    expect(error.method).toBe("POST");
+    expect(error.url).toBe("https://api.example.com/users");
+    expect(error.cause).toBe(cause);
+  });
+});
+
+describe("TimeoutError and AbortError", () => {
+  it("should tell a timeout apart from a caller abort", () => {
+    const timeout = new TimeoutError("timed out", { timeout: 100 });
+    const abort = new AbortError("aborted", { cause: "navigated away" });
+
+    expect(timeout).toBeInstanceOf(NetworkError);
+    expect(timeout.name).toBe("TimeoutError");
+    expect(timeout.timeout).toBe(100);
+    expect(abort).not.toBeInstanceOf(NetworkError);
+    expect(abort.name).toBe("AbortError");
+    expect(abort.cause).toBe("navigated away");
+  });
+});
+
+describe("AuthError", () => {
+  it("should be distinct from HTTP errors", () => {
+    const cause = new Error("invalid_grant");
+    const error = new AuthError("Token refresh failed", {
+      method: "GET",
+      url: "https://api.example.com/me",
+      cause,
+    });
+
+    expect(error).not.toBeInstanceOf(HttpError);
+    expect(error.name).toBe("AuthError");
+    expect(error.url).toBe("https://api.example.com/me");
+    expect(error.cause).toBe(cause);
+  });
+});
+
+describe("RateLimitError", () => {
+  it("should keep the request info", () => {
+    const error = new RateLimitError("Rate limit queue is full", {
+      method: "GET",
+      url: "https://api.example.com/items",
+    });
+
+    expect(error.name).toBe("RateLimitError");
+    expect(error).not.toBeInstanceOf(NetworkError);
+    expect(error.method).toBe("GET");
+  });
+});
+
+describe("CircuitOpenError", () => {
+  it("should name the host that is failing fast", () => {
+    const error = new CircuitOpenError("Circuit open", {
+      method: "GET",
+      url: "https://api.example.com/items",
+      host: "api.example.com",
+    });
+
+    expect(error.name).toBe("CircuitOpenError");
+    expect(error).not.toBeInstanceOf(NetworkError);
+    expect(error.host).toBe("api.example.com");
+  });
+});
+
+describe("UnmatchedRequestError", () => {
+  it("should keep the unmatched request", () => {
+    const error = new UnmatchedRequestError("No mock matched", {
+      method: "DELETE",
+      url: "https://api.example.com/items/1",
+    });
+
+    expect(error.name).toBe("UnmatchedRequestError");
+    expect(error.url).toBe("https://api.example.com/items/1");
+  });
+});
+
+describe("RequestError", () => {
+  it("should be the base of non-HTTP request errors", () => {
+    const errors = [
+      new NetworkError("a"),
+      new TimeoutError("b", { timeout: 1 }),
+      new AbortError("c"),
+      new AuthError("d"),
+      new RateLimitError("e"),
+      new CircuitOpenError("f", { host: "api.example.com" }),
+      new UnmatchedRequestError("g"),
+      new ValidationError("h", { issues: [], data: null }),
+    ];
+
+    errors.forEach((error) => {
+      expect(error).toBeInstanceOf(RequestError);
+      expect(error).not.toBeInstanceOf(HttpError);
+    });
+    expect(errors.map(({ name }) => name)).toEqual([
+      "NetworkError",
+      "TimeoutError",
+      "AbortError",
+      "AuthError",
+      "RateLimitError",
+      "CircuitOpenError",
+      "UnmatchedRequestError",
+      "ValidationError",
+    ]);
+  });
+
+  it("should keep method, url and cause", () => {
+    const cause = new Error("boom");
+    const error = new RequestError("failed", {
+      method: "GET",
+      url: "https://api.example.com",
+      cause,
+    });
+
+    expect(error).toMatchObject({
+      name: "RequestError",
+      method: "GET",
+      url: "https://api.example.com",
+      cause,
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import type { ProblemDetails, ValidationIssue } from "./types";
+
+export type HttpErrorInit = {
+  status: number;
+  statusText: string;
+  headers?: Headers;
+  method?: string;
+  url?: string;
+  problem?: ProblemDetails;
+  readBody?: () => Promise<unknown>;
+};
+
+export type NetworkErrorInit = {
+  method?: string;
+  url?: string;
+  cause?: unknown;
+};
+
+export class HttpError extends Error {
+  readonly status: number;
+  readonly statusText: string;
+  readonly headers: Headers;
+  readonly method?: string;
+  readonly url?: string;
+  readonly problem?: ProblemDetails;
+  private readonly readBody?: () => Promise<unknown>;
+  private bodyPromise?: Promise<unknown>;
+
+  constructor(message: string, init: HttpErrorInit) {
+    super(message);
+    this.name = "HttpError";
+    this.status = init.status;
+    this.statusText = init.statusText;
+    this.headers = init.headers ?? new Headers();
+    this.method = init.method;
+    this.url = init.url;
+    this.problem = init.problem;
+    this.readBody = init.readBody;
+  }
+
+  // The body is parsed on first access and memoized, so it can be read
+  // any number of times from catch blocks.
+  body<T = unknown>(): Promise<T | undefined> {
+    if (!this.bodyPromise) {
+      this.bodyPromise = this.readBody
+        ? this.readBody()
+        : Promise.resolve(undefined);
+    }
+    return this.bodyPromise as Promise<T | undefined>;
+  }
+}
+
+export class ClientError extends HttpError {
+  constructor(message: string, init: HttpErrorInit) {
+    super(message, init);
+    this.name = "ClientError";
+  }
+}
+
+export class ServerError extends HttpError {
+  constructor(message: string, init: HttpErrorInit) {
+    super(message, init);
+    this.name = "ServerError";
+  }
+}
+
+// Base for errors raised while sending a request, before or instead of
+// an HTTP response.
+export class RequestError extends Error {
+  readonly method?: string;
+  readonly url?: string;
+  readonly cause?: unknown;
+
+  constructor(message: string, init: NetworkErrorInit = {}) {
+    super(message);
+    this.name = "RequestError";
+    this.method = init.method;
+    this.url = init.url;
+    this.cause = init.cause;
+  }
+}
+
+export class NetworkError extends RequestError {
+  constructor(message: string, init: NetworkErrorInit = {}) {
+    super(message, init);
+    this.name = "NetworkError";
+  }
+}
+
+export class TimeoutError extends NetworkError {
+  readonly timeout: number;
+
+  constructor(message: string, init: NetworkErrorInit & { timeout: number }) {
+    super(message, init);
+    this.name = "TimeoutError";
+    this.timeout = init.timeout;
+  }
+}
+
+export class AbortError extends RequestError {
+  constructor(message: string, init: NetworkErrorInit = {}) {
+    super(message, init);
+    this.name = "AbortError";
+  }
+}
+
+export class AuthError extends RequestError {
+  constructor(message: string, init: NetworkErrorInit = {}) {
+    super(message, init);
+    this.name = "AuthError";
+  }
+}
+
+export class RateLimitError extends RequestError {
+  constructor(message: string, init: NetworkErrorInit = {}) {
+    super(message, init);
+    this.name = "RateLimitError";
+  }
+}
+
+export class CircuitOpenError extends RequestError {
+  readonly host?: string;
+
+  constructor(
+    message: string,
+    init: NetworkErrorInit & { host?: string } = {}
+  ) {
+    super(message, init);
+    this.name = "CircuitOpenError";
+    this.host = init.host;
+  }
+}
+
+export class UnmatchedRequestError extends RequestError {
+  constructor(message: string, init: NetworkErrorInit = {}) {
+    super(message, init);
+    this.name = "UnmatchedRequestError";
+  }
+}
+
+export type ValidationErrorInit = {
+  issues: ReadonlyArray<ValidationIssue>;
+  data: unknown;
+  method?: string;
+  url?: string;
+  cause?: unknown;
+};
+
+export class ValidationError extends RequestError {
+  readonly issues: ReadonlyArray<ValidationIssue>;
+  readonly data: unknown;
+
+  constructor(message: string, init: ValidationErrorInit) {
+    super(message, init);
+    this.name = "ValidationError";
+    this.issues = init.issues;
+    this.data = init.data;
+  }
+}
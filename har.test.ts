@@ -0,0 +1,245 @@
+import { describe, it, expect, vi } from "vitest";
+import { HarRecorder, harFixture, replayHar } from "./har";
+import type { Har } from "./har";
+import { UnmatchedRequestError } from "./errors";
+import type { FetchRequest } from "./types";
+
+const request: FetchRequest = {
+  url: "https://api.example.com/users?page=2",
+  method: "POST",
+  headers: { "Content-Type": "application/json" },
+  body: '{"name":"Ada"}',
+};
+
+describe("HarRecorder", () => {
+  it("should record exchanges without consuming the response", async () => {
+    const recorder = new HarRecorder();
+    const next = vi.fn().mockResolvedValue(
+      new Response('{"id":1}', {
+        status: 201,
+        statusText: "Created",
+        headers: { "Content-Type": "application/json" },
+      })
+    );
+
+    const response = await recorder.middleware(request, next);
+    expect(await response.json()).toEqual({ id: 1 });
+
+    const har = await recorder.toHar();
+    expect(har.log.version).toBe("1.2");
+    expect(har.log.entries).toHaveLength(1);
+    const [entry] = har.log.entries;
+    expect(entry.request).toMatchObject({
+      method: "POST",
+      url: "https://api.example.com/users?page=2",
+      queryString: [{ name: "page", value: "2" }],
+      postData: { mimeType: "application/json", text: '{"name":"Ada"}' },
+    });
+    expect(entry.response).toMatchObject({
+      status: 201,
+      statusText: "Created",
+      content: { size: 8, mimeType: "application/json", text: '{"id":1}' },
+    });
+  });
+
+  it("should base64-encode binary bodies", async () => {
+    const recorder = new HarRecorder();
+    await recorder.middleware(
+      { url: "https://api.example.com/logo", method: "GET" },
+      async () =>
+        new Response(new Uint8Array([0, 255, 1]), {
+          headers: { "Content-Type": "image/png" },
+        })
+    );
+
+    const { content } = (await recorder.toHar()).log.entries[0].response;
+    expect(content).toMatchObject({ text: "AP8B", encoding: "base64" });
+  });
+});
+
+describe("HarRecorder redaction", () => {
+  it("should redact credential headers by default", async () => {
+    const recorder = new HarRecorder({ redactHeaders: ["X-API-Key"] });
+    const response = new Response("{}");
+    response.headers.append("Set-Cookie", "sid=abc");
+    await recorder.middleware(
+      {
+        ...request,
+        headers: {
+          Authorization: "Bearer secret",
+          Cookie: "sid=abc",
+          "X-API-Key": "key",
+          Accept: "application/json",
+        },
+      },
+      async () => response
+    );
+
+    const [entry] = (await recorder.toHar()).log.entries;
+    expect(entry.request.headers).toEqual([
+      { name: "accept", value: "application/json" },
+      { name: "authorization", value: "[REDACTED]" },
+      { name: "cookie", value: "[REDACTED]" },
+      { name: "x-api-key", value: "[REDACTED]" },
+    ]);
+    expect(entry.response.headers).toContainEqual({
+      name: "set-cookie",
+      value: "[REDACTED]",
+    });
+    expect(JSON.stringify(entry)).not.toMatch(/secret|sid=abc|"key"/);
+  });
+
+  it("should redact configured body fields and still replay", async () => {
+    const login: FetchRequest = {
+      url: "https://api.example.com/login",
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: '{"user":"ada","password":"hunter2"}',
+    };
+    const recorder = new HarRecorder({ redactFields: ["password", "token"] });
+    await recorder.middleware(
+      login,
+      async () =>
+        new Response('{"token":"t0k3n"}', {
+          headers: { "Content-Type": "application/json" },
+        })
+    );
+
+    const har = await recorder.toHar();
+    const [entry] = har.log.entries;
+    expect(entry.request.postData?.text).toBe(
+      '{"user":"ada","password":"[REDACTED]"}'
+    );
+    expect(entry.response.content.text).toBe('{"token":"[REDACTED]"}');
+
+    const mock = replayHar(har, { redactFields: ["password", "token"] });
+    const replayed = await mock.middleware(login, vi.fn());
+    expect(await replayed.json()).toEqual({ token: "[REDACTED]" });
+  });
+
+  it("should redact API keys and configured query parameters", async () => {
+    const recorder = new HarRecorder({ redactQuery: ["token"] });
+    await recorder.middleware(
+      {
+        url: "https://api.example.com/items?x-api-key=secret&token=t0k3n&page=2",
+        method: "GET",
+      },
+      async () => new Response("[]")
+    );
+
+    const har = await recorder.toHar();
+    const [entry] = har.log.entries;
+    expect(entry.request.url).toBe(
+      "https://api.example.com/items?x-api-key=[REDACTED]&token=[REDACTED]&page=2"
+    );
+    expect(entry.request.queryString).toEqual([
+      { name: "x-api-key", value: "[REDACTED]" },
+      { name: "token", value: "[REDACTED]" },
+      { name: "page", value: "2" },
+    ]);
+    expect(JSON.stringify(entry)).not.toMatch(/secret|t0k3n/);
+
+    const mock = replayHar(har);
+    const replayed = await mock.middleware(
+      {
+        url: "https://api.example.com/items?page=2&x-api-key=other&token=new",
+        method: "GET",
+      },
+      vi.fn()
+    );
+    expect(await replayed.text()).toBe("[]");
+  });
+});
+
+describe("replayHar", () => {
+  it("should replay recorded exchanges in order", async () => {
+    const recorder = new HarRecorder();
+    const next = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("one"))
+      .mockResolvedValueOnce(
+        new Response(new Uint8Array([1, 2]), {
+          headers: { "Content-Type": "application/octet-stream" },
+        })
+      );
+    await recorder.middleware(request, next);
+    await recorder.middleware(request, next);
+
+    const har = JSON.parse(JSON.stringify(await recorder.toHar()));
+    const mock = replayHar(har);
+
+    const first = await mock.middleware(request, vi.fn());
+    const second = await mock.middleware(request, vi.fn());
+    expect(await first.text()).toBe("one");
+    expect(new Uint8Array(await second.arrayBuffer())).toEqual(
+      new Uint8Array([1, 2])
+    );
+    await expect(mock.middleware(request, vi.fn())).rejects.toThrow(
+      UnmatchedRequestError
+    );
+  });
+
+  it("should only replay requests with the recorded body and query", async () => {
+    const recorder = new HarRecorder();
+    await recorder.middleware(request, async () => new Response("ok"));
+    const mock = replayHar(await recorder.toHar());
+
+    await expect(
+      mock.middleware({ ...request, body: '{"name":"Bob"}' }, vi.fn())
+    ).rejects.toThrow(UnmatchedRequestError);
+    await expect(
+      mock.middleware(
+        { ...request, url: "https://api.example.com/users?page=3" },
+        vi.fn()
+      )
+    ).rejects.toThrow(UnmatchedRequestError);
+  });
+});
+
+describe("harFixture", () => {
+  it("should record while the store is empty, then replay", async () => {
+    let saved: Har | undefined;
+    const store = {
+      load: () => saved,
+      save: (har: Har) => {
+        saved = JSON.parse(JSON.stringify(har));
+      },
+    };
+    const network = vi.fn(
+      async () =>
+        new Response('{"id":1}', {
+          headers: { "Content-Type": "application/json" },
+        })
+    );
+
+    const recording = await harFixture(store, { fetch: network });
+    expect(recording.mode).toBe("record");
+    const live = await recording.fetch(
+      "https://api.example.com/users/1?x-api-key=secret",
+      { headers: { Authorization: "Bearer secret" } }
+    );
+    expect(await live.json()).toEqual({ id: 1 });
+    await recording.done();
+    expect(network).toHaveBeenCalledTimes(1);
+    expect(JSON.stringify(saved)).not.toContain("secret");
+
+    const replaying = await harFixture(store, { fetch: network });
+    expect(replaying.mode).toBe("replay");
+    const offline = await replaying.fetch(
+      "https://api.example.com/users/1?x-api-key=secret"
+    );
+    expect(await offline.json()).toEqual({ id: 1 });
+    await replaying.done();
+    expect(network).toHaveBeenCalledTimes(1);
+  });
+
+  it("should report recorded exchanges that weren't replayed", async () => {
+    const recorder = new HarRecorder();
+    await recorder.middleware(request, async () => new Response("ok"));
+    const har = await recorder.toHar();
+
+    const fixture = await harFixture({ load: () => har, save: vi.fn() });
+
+    await expect(fixture.done()).rejects.toThrow();
+  });
+});
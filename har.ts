@@ -0,0 +1,292 @@
+import type { FetchFunction, Middleware } from "./types";
+import { MockTransport, MockTransportOptions } from "./mock";
+import { isStreamBody } from "./body";
+import { redactBody, redactHeaders, redactUrl } from "./logger";
+import { REDACTED, TEXT_TYPE, toHeaderRecord } from "./utils";
+
+export type HarHeader = { name: string; value: string };
+
+export type HarEntry = {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    content: {
+      size: number;
+      mimeType: string;
+      text?: string;
+      encoding?: "base64";
+    };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+};
+
+export type Har = {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+};
+
+export type HarRecorderOptions = {
+  // added to the headers the logger always redacts (Authorization,
+  // Proxy-Authorization, Cookie, Set-Cookie and X-API-Key)
+  redactHeaders?: string[];
+  // added to x-api-key, which is always masked in the URL and query string
+  redactQuery?: string[];
+  // JSON fields redacted in request and response bodies
+  redactFields?: string[];
+};
+
+export type HarReplayOptions = MockTransportOptions & {
+  // the fields redacted while recording, so request bodies still match
+  redactFields?: string[];
+};
+
+export type HarFixtureStore = {
+  // resolves undefined until a fixture has been recorded
+  load: () => Har | undefined | Promise<Har | undefined>;
+  save: (har: Har) => void | Promise<void>;
+};
+
+export type HarFixture = {
+  mode: "record" | "replay";
+  fetch: FetchFunction;
+  // saves the recording, or checks every recorded exchange was replayed
+  done: () => Promise<void>;
+};
+
+const headerList = (headers: Record<string, string>) =>
+  Object.keys(headers).map((name) => ({ name, value: headers[name] }));
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+export class HarRecorder {
+  private entries: Promise<HarEntry | undefined>[] = [];
+
+  constructor(private options: HarRecorderOptions = {}) {}
+
+  private headers(headers: HeadersInit | undefined) {
+    return headerList(redactHeaders(headers, this.options.redactHeaders));
+  }
+
+  private body(text: string) {
+    return redactBody(text, this.options.redactFields);
+  }
+
+  // Bodies are captured from a clone in the background, so streamed
+  // responses reach the caller without waiting for the recording.
+  readonly middleware: Middleware = async (request, next) => {
+    const started = Date.now();
+    const headers = new Headers(request.headers);
+    const text =
+      request.body === undefined ||
+      request.body === null ||
+      isStreamBody(request.body)
+        ? undefined
+        : await new Response(request.body).text();
+
+    const response = await next(request);
+    const wait = Date.now() - started;
+    const copy = response.clone();
+
+    this.entries.push(
+      copy.arrayBuffer().then(
+        (buffer) => {
+          const bytes = new Uint8Array(buffer);
+          const mimeType = copy.headers.get("Content-Type") ?? "";
+          const isText = !bytes.length || TEXT_TYPE.test(mimeType);
+          const url = redactUrl(request.url, this.options.redactQuery);
+          const queryString: HarHeader[] = [];
+          new URL(url).searchParams.forEach((value, name) =>
+            queryString.push({ name, value })
+          );
+          return {
+            startedDateTime: new Date(started).toISOString(),
+            time: Date.now() - started,
+            request: {
+              method: request.method,
+              url,
+              httpVersion: "HTTP/1.1",
+              headers: this.headers(request.headers),
+              queryString,
+              postData:
+                text === undefined
+                  ? undefined
+                  : {
+                      mimeType: headers.get("Content-Type") ?? "",
+                      text: this.body(text),
+                    },
+              headersSize: -1,
+              bodySize: text === undefined ? 0 : text.length,
+            },
+            response: {
+              status: copy.status,
+              statusText: copy.statusText,
+              httpVersion: "HTTP/1.1",
+              headers: this.headers(copy.headers),
+              content: {
+                size: bytes.length,
+                mimeType,
+                text: isText
+                  ? this.body(new TextDecoder().decode(bytes))
+                  : toBase64(bytes),
+                encoding: isText ? undefined : "base64",
+              },
+              redirectURL: copy.headers.get("Location") ?? "",
+              headersSize: -1,
+              bodySize: bytes.length,
+            },
+            cache: {},
+            timings: { send: 0, wait, receive: Date.now() - started - wait },
+          };
+        },
+        // an aborted or failed body isn't a replayable exchange
+        () => undefined
+      )
+    );
+    return response;
+  };
+
+  async toHar(): Promise<Har> {
+    const entries = await Promise.all(this.entries);
+    return {
+      log: {
+        version: "1.2",
+        creator: { name: "zapyt", version: "0.1.0" },
+        entries: entries.filter((entry): entry is HarEntry => !!entry),
+      },
+    };
+  }
+}
+
+// Each recorded exchange answers one matching request, in recorded order.
+export const replayHar = (
+  har: Har,
+  options: HarReplayOptions = {}
+): MockTransport => {
+  const { redactFields, ...mockOptions } = options;
+  const mock = new MockTransport(mockOptions);
+  // Redacted bodies are compared after redacting the incoming body the
+  // same way; the mock hands predicates the parsed JSON.
+  const matchBody = (recorded: string) =>
+    redactFields?.length
+      ? (body: unknown) =>
+          redactBody(
+            typeof body === "string" ? body : JSON.stringify(body),
+            redactFields
+          ) === recorded
+      : recorded;
+  har.log.entries.forEach(({ request, response }) => {
+    const url = new URL(request.url);
+    // a redacted parameter matches whatever value the request sends
+    const query: Record<string, string[]> = {};
+    url.searchParams.forEach((value, name) => {
+      const values = url.searchParams.getAll(name);
+      if (!values.includes(REDACTED)) {
+        query[name] = values;
+      }
+    });
+    const headers = new Headers();
+    response.headers.forEach(({ name, value }) => {
+      // the recorded body is already decoded, and redacted values
+      // (a Set-Cookie, say) aren't worth replaying
+      if (
+        value !== REDACTED &&
+        !/^(content-encoding|content-length)$/i.test(name)
+      ) {
+        headers.append(name, value);
+      }
+    });
+    const { text = "", encoding } = response.content;
+
+    mock.on(
+      {
+        method: request.method,
+        path: `${url.origin}${url.pathname}`,
+        query,
+        ...(request.postData ? { body: matchBody(request.postData.text) } : {}),
+        times: 1,
+      },
+      () =>
+        new Response(
+          response.status === 204 || response.status === 304
+            ? null
+            : encoding === "base64"
+            ? fromBase64(text)
+            : text,
+          { status: response.status, statusText: response.statusText, headers }
+        )
+    );
+  });
+  return mock;
+};
+
+const toFetchRequest = (input: RequestInfo | URL, init: RequestInit) =>
+  input instanceof Request
+    ? {
+        url: input.url,
+        method: init.method ?? input.method,
+        headers: toHeaderRecord(init.headers ?? input.headers),
+        body: init.body,
+      }
+    : {
+        url: String(input),
+        method: init.method ?? "GET",
+        headers: toHeaderRecord(init.headers),
+        body: init.body,
+      };
+
+// Records through the real fetch while the store is empty and replays
+// the saved exchanges offline afterwards. The store decides where the
+// fixture lives, e.g. a JSON file read and written with node:fs.
+export const harFixture = async (
+  store: HarFixtureStore,
+  options: HarRecorderOptions &
+    MockTransportOptions & { fetch?: FetchFunction } = {}
+): Promise<HarFixture> => {
+  const { fetch: send = (input, init) => fetch(input, init), ...rest } =
+    options;
+  const har = await store.load();
+  if (har) {
+    const mock = replayHar(har, rest);
+    return {
+      mode: "replay",
+      fetch: mock.fetch,
+      done: async () => mock.assertDone(),
+    };
+  }
+
+  const recorder = new HarRecorder(rest);
+  return {
+    mode: "record",
+    fetch: (input, init = {}) =>
+      recorder.middleware(toFetchRequest(input, init), () => send(input, init)),
+    done: async () => store.save(await recorder.toHar()),
+  };
+};
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from "vitest";
+import { createLifecycle } from "./hooks";
+import type { FetchRequest } from "./types";
+
+const request: FetchRequest = {
+  url: "https://api.example.com/items",
+  method: "GET",
+};
+
+describe("createLifecycle", () => {
+  it("should return undefined without hooks", () => {
+    expect(createLifecycle(undefined, request)).toBeUndefined();
+  });
+
+  it("should report the start synchronously", () => {
+    const onRequestStart = vi.fn();
+    createLifecycle({ onRequestStart }, request);
+
+    expect(onRequestStart).toHaveBeenCalledWith({
+      request,
+      startTime: expect.any(Number),
+    });
+  });
+
+  it("should report timing relative to the start", () => {
+    vi.spyOn(performance, "now")
+      .mockReturnValueOnce(100)
+      .mockReturnValueOnce(142.5);
+    const onResponseHeaders = vi.fn();
+    const lifecycle = createLifecycle({ onResponseHeaders }, request);
+    const response = new Response();
+
+    lifecycle?.response(response);
+
+    expect(onResponseHeaders).toHaveBeenCalledWith({
+      request,
+      response,
+      startTime: expect.any(Number),
+      duration: 42.5,
+    });
+    vi.restoreAllMocks();
+  });
+
+  it("should pass errors and retry details through", () => {
+    const onError = vi.fn();
+    const onRetry = vi.fn();
+    const lifecycle = createLifecycle({ onError, onRetry }, request);
+    const error = new Error("boom");
+
+    lifecycle?.retry({ attempt: 1, delay: 300, request, error });
+    lifecycle?.error(error);
+
+    expect(onRetry).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 1, delay: 300, error, request })
+    );
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ error, request, duration: expect.any(Number) })
+    );
+  });
+
+  it("should ignore events without a matching hook", () => {
+    const lifecycle = createLifecycle({}, request);
+
+    expect(() => {
+      lifecycle?.response(new Response());
+      lifecycle?.bodyConsumed(new Response());
+      lifecycle?.error(new Error("boom"));
+    }).not.toThrow();
+  });
+});
@@ -0,0 +1,35 @@
+import type { ClientHooks, FetchRequest, RetryInfo } from "./types";
+
+export type Lifecycle = {
+  response: (response: Response) => void;
+  bodyConsumed: (response: Response) => void;
+  error: (error: unknown) => void;
+  retry: (info: RetryInfo) => void;
+};
+
+// Returns undefined without hooks, so call sites cost one optional chain.
+export const createLifecycle = (
+  hooks: ClientHooks | undefined,
+  request: FetchRequest
+): Lifecycle | undefined => {
+  if (!hooks) {
+    return undefined;
+  }
+  const startTime = Date.now();
+  const start = performance.now();
+  const timing = () => ({
+    request,
+    startTime,
+    duration: performance.now() - start,
+  });
+
+  hooks.onRequestStart?.({ request, startTime });
+  return {
+    response: (response) =>
+      hooks.onResponseHeaders?.({ ...timing(), response }),
+    bodyConsumed: (response) =>
+      hooks.onBodyConsumed?.({ ...timing(), response }),
+    error: (error) => hooks.onError?.({ ...timing(), error }),
+    retry: (info) => hooks.onRetry?.({ ...timing(), ...info }),
+  };
+};
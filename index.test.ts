@@ -1,5 +1,40 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { FetchClient } from "./index";
+import {
+  describe,
+  it,
+  expect,
+  expectTypeOf,
+  vi,
+  beforeEach,
+  afterEach,
+} from "vitest";
+import {
+  FetchClient,
+  ClientError,
+  HttpError,
+  NetworkError,
+  ServerError,
+  TimeoutError,
+  AbortError,
+  AuthError,
+  bearerAuth,
+  apiKeyAuth,
+  refreshableBearerAuth,
+  CookieJar,
+  cursorPagination,
+  offsetPagination,
+  RateLimitError,
+  CircuitOpenError,
+  MockTransport,
+  HarRecorder,
+  replayHar,
+  tracingMiddleware,
+  loggingMiddleware,
+  parseProblemDetails,
+  dateJsonCodec,
+  superjsonCodec,
+  ValidationError,
+} from "./index";
+import type { FetchResponse, StandardSchema } from "./types";
 
 describe("FetchClient", () => {
   describe("constructor", () => {
@@ -146,6 +181,37 @@ describe("FetchClient", () => {
       );
     });
 
+    it("should throw ClientError carrying the response body", async () => {
+      fetchMock.mockResolvedValue(
+        new Response(JSON.stringify({ error: "User not found" }), {
+          status: 404,
+          statusText: "Not Found",
+          headers: { "Content-Type": "application/json" },
+        })
+      );
+
+      const error = await client.get("/users/999").catch((e) => e);
+
+      expect(error).toBeInstanceOf(ClientError);
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.status).toBe(404);
+      expect(error.method).toBe("GET");
+      expect(error.url).toBe("https://api.example.com/users/999");
+      expect(await error.body()).toEqual({ error: "User not found" });
+    });
+
+    it("should throw NetworkError when fetch rejects", async () => {
+      const cause = new TypeError("fetch failed");
+      fetchMock.mockRejectedValue(cause);
+
+      const error = await client.get("/users").catch((e) => e);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.method).toBe("GET");
+      expect(error.url).toBe("https://api.example.com/users");
+      expect(error.cause).toBe(cause);
+    });
+
     it("should handle GET request without options", async () => {
       fetchMock.mockResolvedValue(
         new Response(JSON.stringify({}), {
@@ -193,7 +259,7 @@ describe("FetchClient", () => {
       await client.post("/users", payload);
 
       expect(fetchMock).toHaveBeenCalledWith("https://api.example.com/users", {
-        headers: undefined,
+        headers: { "Content-Type": "application/json" },
         method: "POST",
         body: JSON.stringify(payload),
       });
@@ -236,7 +302,10 @@ describe("FetchClient", () => {
       });
 
       expect(fetchMock).toHaveBeenCalledWith("https://api.example.com/users", {
-        headers: { Authorization: "Bearer token123" },
+        headers: {
+          Authorization: "Bearer token123",
+          "Content-Type": "application/json",
+        },
         method: "POST",
         body: JSON.stringify(payload),
       });
@@ -268,6 +337,21 @@ describe("FetchClient", () => {
       );
     });
 
+    it("should throw ServerError for 5xx status", async () => {
+      fetchMock.mockResolvedValue(
+        new Response(null, {
+          status: 503,
+          statusText: "Service Unavailable",
+        })
+      );
+
+      const error = await client.post("/users", {}).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ServerError);
+      expect(error.status).toBe(503);
+      expect(error.method).toBe("POST");
+    });
+
     it("should handle POST request without options", async () => {
       const payload = { name: "Test" };
       fetchMock.mockResolvedValue(
@@ -281,7 +365,7 @@ describe("FetchClient", () => {
       await client.post("/users", payload);
 
       expect(fetchMock).toHaveBeenCalledWith("https://api.example.com/users", {
-        headers: undefined,
+        headers: { "Content-Type": "application/json" },
         method: "POST",
         body: JSON.stringify(payload),
       });
@@ -303,7 +387,7 @@ describe("FetchClient", () => {
       await client.post("/data", payload);
 
       expect(fetchMock).toHaveBeenCalledWith("https://api.example.com/data", {
-        headers: undefined,
+        headers: { "Content-Type": "application/json" },
         method: "POST",
         body: JSON.stringify(payload),
       });
@@ -341,7 +425,7 @@ describe("FetchClient", () => {
       expect(fetchMock).toHaveBeenCalledWith(
         "https://api.example.com/users/1",
         {
-          headers: undefined,
+          headers: { "Content-Type": "application/json" },
           method: "PUT",
           body: JSON.stringify(payload),
         }
@@ -387,7 +471,10 @@ describe("FetchClient", () => {
       expect(fetchMock).toHaveBeenCalledWith(
         "https://api.example.com/users/1",
         {
-          headers: { Authorization: "Bearer token123" },
+          headers: {
+            Authorization: "Bearer token123",
+            "Content-Type": "application/json",
+          },
           method: "PUT",
           body: JSON.stringify(payload),
         }
@@ -435,7 +522,7 @@ describe("FetchClient", () => {
       expect(fetchMock).toHaveBeenCalledWith(
         "https://api.example.com/users/1",
         {
-          headers: undefined,
+          headers: { "Content-Type": "application/json" },
           method: "PUT",
           body: JSON.stringify(payload),
         }
@@ -573,3 +660,2352 @@ describe("FetchClient", () => {
     });
   });
 });
+
+describe("FetchClient middleware", () => {
+  let client: FetchClient;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    client = new FetchClient("https://api.example.com");
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should run middleware in registration order for every verb", async () => {
+    const calls: string[] = [];
+    fetchMock.mockImplementation(
+      async () => new Response(null, { status: 204 })
+    );
+
+    client
+      .use(async (request, next) => {
+        calls.push(`first:${request.method}`);
+        return next(request);
+      })
+      .use(async (request, next) => {
+        calls.push(`second:${request.method}`);
+        return next(request);
+      });
+
+    await client.get("/users");
+    await client.post("/users", {});
+    await client.put("/users/1", {});
+    await client.delete("/users/1");
+
+    expect(calls).toEqual([
+      "first:GET",
+      "second:GET",
+      "first:POST",
+      "second:POST",
+      "first:PUT",
+      "second:PUT",
+      "first:DELETE",
+      "second:DELETE",
+    ]);
+  });
+
+  it("should let middleware rewrite the outgoing request", async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+    client.use((request, next) =>
+      next({
+        ...request,
+        headers: { ...request.headers, "X-Correlation-Id": "abc" },
+      })
+    );
+
+    await client.get("/users", { headers: { Accept: "application/json" } });
+
+    expect(fetchMock).toHaveBeenCalledWith("https://api.example.com/users", {
+      headers: { Accept: "application/json", "X-Correlation-Id": "abc" },
+      method: "GET",
+    });
+  });
+
+  it("should allow short-circuiting with a synthetic response", async () => {
+    client.use(async () =>
+      Response.json({ cached: true }, { status: 200, statusText: "OK" })
+    );
+
+    const response = await client.get<{ cached: boolean }>("/users");
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(response.status).toBe(200);
+    expect(await response.data()).toEqual({ cached: true });
+  });
+
+  it("should let middleware transform the response", async () => {
+    fetchMock.mockResolvedValue(
+      new Response(null, { status: 500, statusText: "Internal Server Error" })
+    );
+
+    client.use(async (request, next) => {
+      const response = await next(request);
+      if (response.status === 500) {
+        return new Response("fallback", { status: 200, statusText: "OK" });
+      }
+      return response;
+    });
+
+    const response = await client.get<string>("/users");
+    expect(await response.data()).toBe("fallback");
+  });
+
+  it("should surface non-2xx responses from middleware as HttpError", async () => {
+    client.use(
+      async () =>
+        new Response(null, { status: 401, statusText: "Unauthorized" })
+    );
+
+    const error = await client.get("/users").catch((e) => e);
+
+    expect(error).toBeInstanceOf(ClientError);
+    expect(error.status).toBe(401);
+    expect(error.url).toBe("https://api.example.com/users");
+  });
+
+  it("should let middleware transform errors on the way back", async () => {
+    fetchMock.mockRejectedValue(new TypeError("fetch failed"));
+
+    client.use(async (request, next) => {
+      try {
+        return await next(request);
+      } catch (error) {
+        if (error instanceof NetworkError) {
+          throw new Error(`Offline: ${request.url}`);
+        }
+        throw error;
+      }
+    });
+
+    await expect(client.get("/users")).rejects.toThrow(
+      "Offline: https://api.example.com/users"
+    );
+  });
+});
+
+describe("FetchClient retries", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("should not retry by default", async () => {
+    const client = new FetchClient("https://api.example.com");
+    fetchMock.mockResolvedValue(new Response(null, { status: 503 }));
+
+    await expect(client.get("/users")).rejects.toThrow(ServerError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry with the client policy and report attempts", async () => {
+    const onRetry = vi.fn();
+    const client = new FetchClient("https://api.example.com", {
+      retry: { attempts: 3, baseDelay: 0, onRetry },
+    });
+    fetchMock
+      .mockResolvedValueOnce(new Response(null, { status: 502 }))
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(Response.json({ id: 1 }));
+
+    const response = await client.get("/users/1");
+
+    expect(await response.data()).toEqual({ id: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry.mock.calls[0][0]).toMatchObject({ attempt: 1 });
+    expect(onRetry.mock.calls[0][0].response.status).toBe(502);
+    expect(onRetry.mock.calls[1][0].error).toBeInstanceOf(NetworkError);
+  });
+
+  it("should throw the last error once attempts are exhausted", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      retry: { attempts: 2, baseDelay: 0 },
+    });
+    fetchMock.mockImplementation(
+      async () => new Response(null, { status: 503 })
+    );
+
+    await expect(client.get("/users")).rejects.toThrow(ServerError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry POST unless the method is allowed", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      retry: { baseDelay: 0 },
+    });
+    fetchMock.mockImplementation(
+      async () => new Response(null, { status: 503 })
+    );
+
+    await expect(client.post("/users", {})).rejects.toThrow(ServerError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockClear();
+    await expect(
+      client.post("/users", {}, { retry: { methods: ["POST"] } })
+    ).rejects.toThrow(ServerError);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("should allow disabling retries per call", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      retry: { baseDelay: 0 },
+    });
+    fetchMock.mockResolvedValue(new Response(null, { status: 503 }));
+
+    await expect(client.get("/users", { retry: false })).rejects.toThrow();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should wait for Retry-After before retrying", async () => {
+    vi.useFakeTimers();
+    const client = new FetchClient("https://api.example.com", {
+      retry: { attempts: 2 },
+    });
+    fetchMock
+      .mockResolvedValueOnce(
+        new Response(null, { status: 429, headers: { "Retry-After": "5" } })
+      )
+      .mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+    const pending = client.get("/users");
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await pending).status).toBe(204);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("FetchClient timeouts and cancellation", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const hangUntilAborted = (_url: string, init: RequestInit) =>
+    new Promise<Response>((_resolve, reject) => {
+      init.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+    });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("should not pass a signal when none is configured", async () => {
+    const client = new FetchClient("https://api.example.com");
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+    await client.get("/users");
+
+    expect(fetchMock.mock.calls[0][1].signal).toBeUndefined();
+  });
+
+  it("should throw TimeoutError when the per-call timeout elapses", async () => {
+    const client = new FetchClient("https://api.example.com");
+    fetchMock.mockImplementation(hangUntilAborted);
+
+    const pending = client.get("/users", { timeout: 100 }).catch((e) => e);
+    await vi.advanceTimersByTimeAsync(100);
+    const error = await pending;
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.timeout).toBe(100);
+    expect(error.url).toBe("https://api.example.com/users");
+  });
+
+  it("should apply the client-wide default timeout", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      timeout: 50,
+    });
+    fetchMock.mockImplementation(hangUntilAborted);
+
+    const pending = client.delete("/users/1").catch((e) => e);
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect(await pending).toBeInstanceOf(TimeoutError);
+  });
+
+  it("should throw AbortError when the caller aborts", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      timeout: 1000,
+    });
+    const controller = new AbortController();
+    fetchMock.mockImplementation(hangUntilAborted);
+
+    const pending = client
+      .post("/users", {}, { signal: controller.signal })
+      .catch((e) => e);
+    controller.abort();
+    const error = await pending;
+
+    expect(error).toBeInstanceOf(AbortError);
+    expect(error).not.toBeInstanceOf(TimeoutError);
+    expect(error.method).toBe("POST");
+  });
+
+  it("should not retry once the request has timed out", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      retry: { attempts: 3, baseDelay: 0 },
+    });
+    fetchMock.mockImplementation(hangUntilAborted);
+
+    const pending = client.get("/users", { timeout: 100 }).catch((e) => e);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(await pending).toBeInstanceOf(TimeoutError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should cancel the backoff sleep when the caller aborts", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      retry: { attempts: 3, baseDelay: 10000, jitter: false },
+    });
+    const controller = new AbortController();
+    fetchMock.mockImplementation(
+      async () => new Response(null, { status: 503 })
+    );
+
+    const pending = client
+      .get("/users", { signal: controller.signal })
+      .catch((e) => e);
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    expect(await pending).toBeInstanceOf(AbortError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should cover the body read done by data()", async () => {
+    const client = new FetchClient("https://api.example.com");
+    fetchMock.mockImplementation(
+      async (_url: string, init: RequestInit) =>
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode("partial"));
+              init.signal?.addEventListener("abort", () =>
+                controller.error(init.signal?.reason)
+              );
+            },
+          }),
+          { status: 200, headers: { "Content-Type": "text/plain" } }
+        )
+    );
+
+    const response = await client.get("/stream", { timeout: 100 });
+    const pending = response.data().catch((e) => e);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(await pending).toBeInstanceOf(TimeoutError);
+  });
+});
+
+describe("FetchClient URLs and query", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    fetchMock.mockImplementation(
+      async () => new Response(null, { status: 204 })
+    );
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should resolve paths against a base URL with a path prefix", async () => {
+    const client = new FetchClient("https://api.example.com/v1");
+
+    await client.get("users");
+    await client.delete("/users/1");
+
+    expect(fetchMock.mock.calls[0][0]).toBe("https://api.example.com/v1/users");
+    expect(fetchMock.mock.calls[1][0]).toBe(
+      "https://api.example.com/v1/users/1"
+    );
+  });
+
+  it("should serialize the query option for every verb", async () => {
+    const client = new FetchClient("https://api.example.com");
+
+    await client.get("/users", { query: { page: 2, tag: ["a", "b"] } });
+    await client.post("/users?dryRun=true", {}, { query: { notify: false } });
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      "https://api.example.com/users?page=2&tag=a&tag=b"
+    );
+    expect(fetchMock.mock.calls[1][0]).toBe(
+      "https://api.example.com/users?dryRun=true&notify=false"
+    );
+  });
+
+  it("should pass absolute URLs through untouched", async () => {
+    const client = new FetchClient("https://api.example.com");
+
+    await client.get("https://other.example.com/status");
+
+    expect(fetchMock.mock.calls[0][0]).toBe("https://other.example.com/status");
+  });
+});
+
+describe("FetchClient request and extra verbs", () => {
+  let client: FetchClient;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    client = new FetchClient("https://api.example.com");
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should send arbitrary requests through request()", async () => {
+    fetchMock.mockResolvedValue(Response.json({ id: 1 }));
+
+    const response = await client.request<{ id: number }>({
+      method: "post",
+      url: "/users",
+      body: { name: "Test" },
+      headers: { Authorization: "Bearer token123" },
+      query: { notify: true },
+    });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://api.example.com/users?notify=true",
+      {
+        headers: {
+          Authorization: "Bearer token123",
+          "Content-Type": "application/json",
+        },
+        method: "POST",
+        body: JSON.stringify({ name: "Test" }),
+      }
+    );
+    expect(await response.data()).toEqual({ id: 1 });
+  });
+
+  it("should make PATCH request with payload", async () => {
+    const payload = { name: "Patched" };
+    fetchMock.mockResolvedValue(Response.json({ id: 1, ...payload }));
+
+    const response = await client.patch("/users/1", payload);
+
+    expect(fetchMock).toHaveBeenCalledWith("https://api.example.com/users/1", {
+      headers: { "Content-Type": "application/json" },
+      method: "PATCH",
+      body: JSON.stringify(payload),
+    });
+    expect(await response.data()).toEqual({ id: 1, name: "Patched" });
+  });
+
+  it("should expose HEAD response headers without parsing a body", async () => {
+    const response = new Response(null, {
+      status: 200,
+      statusText: "OK",
+      headers: { "Content-Type": "application/json", "Content-Length": "42" },
+    });
+    const json = vi.spyOn(response, "json");
+    fetchMock.mockResolvedValue(response);
+
+    const result = await client.head("/users/1");
+
+    expect(fetchMock.mock.calls[0][1].method).toBe("HEAD");
+    expect(result.status).toBe(200);
+    expect(result.headers.get("Content-Length")).toBe("42");
+    expect(await result.data()).toBeUndefined();
+    expect(json).not.toHaveBeenCalled();
+  });
+
+  it("should make OPTIONS request", async () => {
+    fetchMock.mockResolvedValue(
+      new Response(null, {
+        status: 204,
+        headers: { Allow: "GET, POST, OPTIONS" },
+      })
+    );
+
+    const response = await client.options("/users");
+
+    expect(fetchMock.mock.calls[0][1].method).toBe("OPTIONS");
+    expect(response.headers.get("Allow")).toBe("GET, POST, OPTIONS");
+  });
+
+  it("should throw HttpError from the new verbs", async () => {
+    fetchMock.mockResolvedValue(
+      new Response(null, { status: 404, statusText: "Not Found" })
+    );
+
+    await expect(client.head("/missing")).rejects.toThrow(ClientError);
+    await expect(client.patch("/missing", {})).rejects.toThrow(
+      "Client error: [404] (Not Found)"
+    );
+  });
+});
+
+describe("FetchClient request bodies", () => {
+  let client: FetchClient;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    client = new FetchClient("https://api.example.com");
+    fetchMock = vi.fn();
+    fetchMock.mockImplementation(
+      async () => new Response(null, { status: 204 })
+    );
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should send FormData natively without a Content-Type", async () => {
+    const form = new FormData();
+    form.append("name", "Test");
+
+    await client.post("/upload", form);
+
+    expect(fetchMock).toHaveBeenCalledWith("https://api.example.com/upload", {
+      headers: undefined,
+      method: "POST",
+      body: form,
+    });
+  });
+
+  it("should not override a caller-provided Content-Type", async () => {
+    await client.put("/users/1", "<user/>", {
+      headers: { "content-type": "application/xml" },
+    });
+
+    expect(fetchMock).toHaveBeenCalledWith("https://api.example.com/users/1", {
+      headers: { "content-type": "application/xml" },
+      method: "PUT",
+      body: "<user/>",
+    });
+  });
+
+  it("should stream ReadableStream bodies in half-duplex mode", async () => {
+    const stream = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new Uint8Array([1, 2, 3]));
+        controller.close();
+      },
+    });
+
+    await client.post("/upload", stream);
+
+    const init = fetchMock.mock.calls[0][1];
+    expect(init.body).toBe(stream);
+    expect(init.duplex).toBe("half");
+    expect(init.headers).toEqual({
+      "Content-Type": "application/octet-stream",
+    });
+  });
+
+  it("should not retry requests with a stream body", async () => {
+    const retrying = new FetchClient("https://api.example.com", {
+      retry: { baseDelay: 0 },
+    });
+    fetchMock.mockResolvedValue(new Response(null, { status: 503 }));
+
+    await expect(retrying.put("/upload", new ReadableStream())).rejects.toThrow(
+      ServerError
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("FetchClient codecs", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should revive dates in responses with dateJsonCodec", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      codec: dateJsonCodec,
+    });
+    fetchMock.mockResolvedValue(
+      Response.json({ createdAt: "2024-01-02T03:04:05.000Z" })
+    );
+
+    const response = await client.get<{ createdAt: Date }>("/users/1");
+
+    expect((await response.data()).createdAt).toEqual(
+      new Date("2024-01-02T03:04:05.000Z")
+    );
+  });
+
+  it("should apply superjsonCodec to request and response bodies", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      codec: superjsonCodec,
+    });
+    const payload = { at: new Date(0), tags: new Set(["a"]) };
+    fetchMock.mockImplementation(
+      async (_url: string, init: RequestInit) =>
+        new Response(init.body, {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        })
+    );
+
+    const response = await client.post<typeof payload>("/echo", payload);
+
+    expect(fetchMock.mock.calls[0][1].body).toBe(
+      superjsonCodec.encode(payload)
+    );
+    expect(await response.data()).toEqual(payload);
+  });
+
+  it("should allow a per-call custom codec", async () => {
+    const client = new FetchClient("https://api.example.com");
+    const codec = {
+      contentType: "application/json",
+      encode: (value: unknown) => JSON.stringify({ wrapped: value }),
+      decode: (text: string) => JSON.parse(text).wrapped,
+    };
+    fetchMock.mockResolvedValue(Response.json({ wrapped: { id: 1 } }));
+
+    const response = await client.put("/users/1", { id: 1 }, { codec });
+
+    expect(fetchMock.mock.calls[0][1].body).toBe('{"wrapped":{"id":1}}');
+    expect(await response.data()).toEqual({ id: 1 });
+  });
+
+  it("should decode error bodies with the codec", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      codec: dateJsonCodec,
+    });
+    fetchMock.mockResolvedValue(
+      Response.json(
+        { retryAt: "2024-01-02T03:04:05.000Z" },
+        { status: 409, statusText: "Conflict" }
+      )
+    );
+
+    const error = await client.get("/users/1").catch((e) => e);
+
+    expect((await error.body()).retryAt).toBeInstanceOf(Date);
+  });
+});
+
+describe("FetchClient schema validation", () => {
+  type User = { id: number; name: string };
+
+  const userSchema: StandardSchema<User> = {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate: (value) => {
+        const user = value as Partial<User>;
+        return typeof user?.id === "number" && typeof user?.name === "string"
+          ? { value: { id: user.id, name: user.name } }
+          : { issues: [{ message: "Invalid user" }] };
+      },
+    },
+  };
+
+  let client: FetchClient;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    client = new FetchClient("https://api.example.com");
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should infer the data type from the schema", async () => {
+    fetchMock.mockResolvedValue(Response.json({ id: 1, name: "Ann" }));
+
+    const response = await client.get("/users/1", { schema: userSchema });
+    const data = await response.data();
+
+    expectTypeOf(data).toEqualTypeOf<User>();
+    expect(data).toEqual({ id: 1, name: "Ann" });
+  });
+
+  it("should throw ValidationError when the response does not match", async () => {
+    fetchMock.mockResolvedValue(Response.json({ id: "1" }));
+
+    const response = await client.get("/users/1", { schema: userSchema });
+    const error = await response.data().catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.issues).toEqual([{ message: "Invalid user" }]);
+    expect(error.data).toEqual({ id: "1" });
+    expect(error.url).toBe("https://api.example.com/users/1");
+  });
+
+  it("should accept a plain parser function", async () => {
+    fetchMock.mockResolvedValue(Response.json({ count: "3" }));
+
+    const response = await client.get("/users/count", {
+      schema: (input) => Number((input as { count: string }).count),
+    });
+
+    expectTypeOf(response).toEqualTypeOf<FetchResponse<number>>();
+    expect(await response.data()).toBe(3);
+  });
+
+  it("should validate payloads before sending", async () => {
+    const error = await client
+      .post("/users", { id: 1 } as unknown as User, {
+        payloadSchema: userSchema,
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.method).toBe("POST");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should send the validated payload", async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+    await client.put("/users/1", { id: 1, name: "Ann", extra: true } as User, {
+      payloadSchema: userSchema,
+    });
+
+    expect(fetchMock.mock.calls[0][1].body).toBe('{"id":1,"name":"Ann"}');
+  });
+});
+
+describe("FetchClient caching", () => {
+  let client: FetchClient;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    client = new FetchClient("https://api.example.com", { cache: true });
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const cacheable = (body: unknown, headers: Record<string, string> = {}) =>
+    Response.json(body, {
+      headers: { "Cache-Control": "max-age=60", ETag: '"v1"', ...headers },
+    });
+
+  it("should serve fresh GET responses from the cache", async () => {
+    fetchMock.mockResolvedValueOnce(cacheable({ id: 1 }));
+
+    await (await client.get("/users/1")).data();
+    const cached = await client.get("/users/1");
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(cached.status).toBe(200);
+    expect(await cached.data()).toEqual({ id: 1 });
+    expect(await cached.data()).toEqual({ id: 1 });
+  });
+
+  it("should not cache when disabled on the client or per call", async () => {
+    const uncached = new FetchClient("https://api.example.com");
+    fetchMock.mockImplementation(async () => cacheable({ id: 1 }));
+
+    await uncached.get("/users/1");
+    await uncached.get("/users/1");
+    await client.get("/users/1", { cache: false });
+    await client.get("/users/1", { cache: false });
+
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("should revalidate with If-None-Match and reuse the body on 304", async () => {
+    fetchMock
+      .mockResolvedValueOnce(cacheable({ id: 1 }))
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+    await client.get("/users/1");
+    vi.advanceTimersByTime(61000);
+    const revalidated = await client.get("/users/1");
+
+    expect(fetchMock.mock.calls[1][1].headers).toEqual({
+      "If-None-Match": '"v1"',
+    });
+    expect(revalidated.status).toBe(200);
+    expect(await revalidated.data()).toEqual({ id: 1 });
+  });
+
+  it("should return stale data and revalidate in the background", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        cacheable(
+          { version: 1 },
+          { "Cache-Control": "max-age=1, stale-while-revalidate=60" }
+        )
+      )
+      .mockResolvedValueOnce(cacheable({ version: 2 }));
+
+    await client.get("/config");
+    vi.advanceTimersByTime(2000);
+    const stale = await client.get("/config");
+    await vi.advanceTimersByTimeAsync(0);
+    const fresh = await client.get("/config");
+
+    expect(await stale.data()).toEqual({ version: 1 });
+    expect(await fresh.data()).toEqual({ version: 2 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should invalidate cached GETs after a successful write", async () => {
+    fetchMock
+      .mockResolvedValueOnce(cacheable({ name: "Old" }))
+      .mockResolvedValueOnce(new Response(null, { status: 204 }))
+      .mockResolvedValueOnce(cacheable({ name: "New" }));
+
+    await client.get("/users/1");
+    await client.put("/users/1", { name: "New" });
+    const response = await client.get("/users/1");
+
+    expect(await response.data()).toEqual({ name: "New" });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("FetchClient request deduplication", () => {
+  let client: FetchClient;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    client = new FetchClient("https://api.example.com");
+    fetchMock = vi.fn();
+    fetchMock.mockImplementation(async () => Response.json({ id: 1 }));
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should coalesce concurrent identical GETs", async () => {
+    const responses = await Promise.all([
+      client.get("/users/me"),
+      client.get("/users/me"),
+      client.get("/users/me"),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    for (const response of responses) {
+      expect(await response.data()).toEqual({ id: 1 });
+    }
+  });
+
+  it("should not coalesce requests with different headers", async () => {
+    await Promise.all([
+      client.get("/users/me", { headers: { Authorization: "Bearer a" } }),
+      client.get("/users/me", { headers: { Authorization: "Bearer b" } }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not coalesce non-idempotent requests", async () => {
+    await Promise.all([
+      client.post("/users", { name: "a" }),
+      client.post("/users", { name: "a" }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should be configurable per call and per client", async () => {
+    const undeduped = new FetchClient("https://api.example.com", {
+      dedupe: false,
+    });
+
+    await Promise.all([
+      client.get("/users/me", { dedupe: false }),
+      client.get("/users/me", { dedupe: false }),
+      undeduped.get("/users/me"),
+      undeduped.get("/users/me"),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("should not fail other callers when one aborts", async () => {
+    const controller = new AbortController();
+    let respond!: () => void;
+    fetchMock.mockImplementation(
+      () =>
+        new Promise<Response>((resolve) => {
+          respond = () => resolve(Response.json({ id: 1 }));
+        })
+    );
+
+    const aborted = client
+      .get("/users/me", { signal: controller.signal })
+      .catch((e) => e);
+    const kept = client.get("/users/me");
+    await Promise.resolve();
+    controller.abort();
+    respond();
+
+    expect(await aborted).toBeInstanceOf(AbortError);
+    expect(await (await kept).data()).toEqual({ id: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("FetchClient server-sent events", () => {
+  let client: FetchClient;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const eventStream = (...chunks: string[]) =>
+    new Response(
+      new ReadableStream({
+        start(controller) {
+          chunks.forEach((chunk) =>
+            controller.enqueue(new TextEncoder().encode(chunk))
+          );
+          controller.close();
+        },
+      }),
+      { status: 200, headers: { "Content-Type": "text/event-stream" } }
+    );
+
+  beforeEach(() => {
+    client = new FetchClient("https://api.example.com");
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should yield parsed events", async () => {
+    fetchMock.mockResolvedValueOnce(
+      eventStream("event: greet\ndata: hello\ndata: world\n\n")
+    );
+
+    const events = [];
+    for await (const event of client.sse("/events", { reconnect: false })) {
+      events.push(event);
+    }
+
+    expect(events).toEqual([
+      { id: undefined, event: "greet", data: "hello\nworld", retry: undefined },
+    ]);
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({
+      method: "GET",
+      headers: { Accept: "text/event-stream" },
+    });
+  });
+
+  it("should support POST bodies and custom headers", async () => {
+    fetchMock.mockResolvedValueOnce(eventStream("data: ok\n\n"));
+
+    const events = client.sse("/chat", {
+      method: "POST",
+      body: { prompt: "hi" },
+      headers: { Authorization: "Bearer token123" },
+      reconnect: false,
+    });
+    for await (const _event of events) {
+      // drain
+    }
+
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({
+      method: "POST",
+      body: '{"prompt":"hi"}',
+      headers: {
+        Accept: "text/event-stream",
+        Authorization: "Bearer token123",
+        "Content-Type": "application/json",
+      },
+    });
+  });
+
+  it("should reconnect with Last-Event-ID and the server retry interval", async () => {
+    vi.useFakeTimers();
+    fetchMock
+      .mockResolvedValueOnce(eventStream("retry: 1500\nid: 41\ndata: a\n\n"))
+      .mockResolvedValueOnce(eventStream("id: 42\ndata: b\n\n"))
+      .mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+    const events: string[] = [];
+    const done = (async () => {
+      for await (const event of client.sse("/events")) {
+        events.push(event.data);
+      }
+    })();
+
+    await vi.advanceTimersByTimeAsync(1499);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1500);
+    await done;
+    vi.useRealTimers();
+
+    expect(events).toEqual(["a", "b"]);
+    expect(fetchMock.mock.calls[1][1].headers["Last-Event-ID"]).toBe("41");
+    expect(fetchMock.mock.calls[2][1].headers["Last-Event-ID"]).toBe("42");
+  });
+
+  it("should reconnect after network errors up to maxRetries", async () => {
+    fetchMock.mockRejectedValue(new TypeError("fetch failed"));
+
+    const events = client.sse("/events", { retryDelay: 0, maxRetries: 2 });
+    for await (const _event of events) {
+      // drain
+    }
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not reconnect after an HTTP error", async () => {
+    fetchMock.mockResolvedValue(
+      new Response(null, { status: 401, statusText: "Unauthorized" })
+    );
+
+    const iterator = client.sse("/events", { retryDelay: 0 });
+
+    await expect(iterator.next()).rejects.toThrow(ClientError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop with AbortError when the caller aborts", async () => {
+    const controller = new AbortController();
+    fetchMock.mockResolvedValueOnce(
+      new Response(
+        new ReadableStream({
+          start(stream) {
+            stream.enqueue(new TextEncoder().encode("data: first\n\n"));
+          },
+        }),
+        { headers: { "Content-Type": "text/event-stream" } }
+      )
+    );
+
+    const iterator = client.sse("/events", { signal: controller.signal });
+    expect((await iterator.next()).value.data).toBe("first");
+    const pending = iterator.next();
+    controller.abort();
+
+    await expect(pending).rejects.toThrow(AbortError);
+  });
+});
+
+describe("FetchClient NDJSON streaming", () => {
+  let client: FetchClient;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const ndjsonStream = (...chunks: string[]) =>
+    new Response(
+      new ReadableStream({
+        start(controller) {
+          chunks.forEach((chunk) =>
+            controller.enqueue(new TextEncoder().encode(chunk))
+          );
+          controller.close();
+        },
+      }),
+      { status: 200, headers: { "Content-Type": "application/x-ndjson" } }
+    );
+
+  beforeEach(() => {
+    client = new FetchClient("https://api.example.com");
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should yield parsed items", async () => {
+    fetchMock.mockResolvedValueOnce(
+      ndjsonStream('{"id":1}\n{"id"', ':2}\n{"id":3}')
+    );
+
+    const items = [];
+    for await (const item of client.ndjson("/export")) {
+      items.push(item);
+    }
+
+    expect(items).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({
+      method: "GET",
+      headers: { Accept: "application/x-ndjson" },
+    });
+  });
+
+  it("should expose the stream from data() for JSON Lines responses", async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response("1\n2\n", {
+        headers: { "Content-Type": "application/jsonl" },
+      })
+    );
+
+    const response = await client.get<AsyncIterable<number>>("/numbers");
+    const items = [];
+    for await (const item of await response.data()) {
+      items.push(item);
+    }
+
+    expect(items).toEqual([1, 2]);
+  });
+
+  it("should validate each item and infer its type from the schema", async () => {
+    fetchMock.mockResolvedValueOnce(ndjsonStream('{"id":1}\n{"id":"x"}\n'));
+    const schema = (value: unknown) => {
+      const { id } = value as { id: unknown };
+      if (typeof id !== "number") {
+        throw new Error("id must be a number");
+      }
+      return { id };
+    };
+
+    const iterator = client.ndjson("/export", { schema });
+    expectTypeOf(iterator).toEqualTypeOf<AsyncGenerator<{ id: number }>>();
+    expect((await iterator.next()).value).toEqual({ id: 1 });
+    await expect(iterator.next()).rejects.toThrow(ValidationError);
+  });
+
+  it("should reject responses that aren't NDJSON", async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response("{}", { headers: { "Content-Type": "application/json" } })
+    );
+
+    await expect(client.ndjson("/export").next()).rejects.toThrow(
+      "Expected application/x-ndjson, got application/json"
+    );
+  });
+
+  it("should stop with AbortError when the caller aborts", async () => {
+    const controller = new AbortController();
+    fetchMock.mockResolvedValueOnce(
+      new Response(
+        new ReadableStream({
+          start(stream) {
+            stream.enqueue(new TextEncoder().encode('"first"\n'));
+          },
+        }),
+        { headers: { "Content-Type": "application/x-ndjson" } }
+      )
+    );
+
+    const iterator = client.ndjson("/export", { signal: controller.signal });
+    expect((await iterator.next()).value).toBe("first");
+    const pending = iterator.next();
+    controller.abort();
+
+    await expect(pending).rejects.toThrow(AbortError);
+  });
+});
+
+describe("FetchClient progress", () => {
+  let client: FetchClient;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    client = new FetchClient("https://api.example.com");
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should report upload progress while the body is sent", async () => {
+    let sent: string | undefined;
+    fetchMock.mockImplementationOnce(async (_url, init) => {
+      sent = await new Response(init.body).text();
+      return new Response(null, { status: 201 });
+    });
+    const onUploadProgress = vi.fn();
+
+    await client.post("/upload", { name: "file" }, { onUploadProgress });
+
+    expect(sent).toBe('{"name":"file"}');
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({
+      duplex: "half",
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(onUploadProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ loaded: 15, total: 15 })
+    );
+  });
+
+  it("should re-send the original body on retries", async () => {
+    const sent: string[] = [];
+    fetchMock.mockImplementation(async (_url, init) => {
+      sent.push(await new Response(init.body).text());
+      return new Response(null, { status: sent.length === 1 ? 503 : 200 });
+    });
+
+    await client.put("/items/1", "data", {
+      retry: { baseDelay: 0 },
+      onUploadProgress: vi.fn(),
+    });
+
+    expect(sent).toEqual(["data", "data"]);
+  });
+
+  it("should report download progress as data() reads the body", async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response('{"ok":true}', {
+        headers: { "Content-Type": "application/json", "Content-Length": "11" },
+      })
+    );
+    const onDownloadProgress = vi.fn();
+
+    const response = await client.get("/file", { onDownloadProgress });
+    expect(onDownloadProgress).not.toHaveBeenCalled();
+
+    expect(await response.data()).toEqual({ ok: true });
+    expect(onDownloadProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ loaded: 11, total: 11 })
+    );
+  });
+
+  it("should report download progress when the total is unknown", async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(
+        new ReadableStream({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode("chunk one, "));
+            controller.enqueue(new TextEncoder().encode("chunk two"));
+            controller.close();
+          },
+        }),
+        { headers: { "Content-Type": "text/plain" } }
+      )
+    );
+    const onDownloadProgress = vi.fn();
+
+    const response = await client.get("/file", { onDownloadProgress });
+
+    expect(await response.data()).toBe("chunk one, chunk two");
+    expect(onDownloadProgress.mock.calls.map(([p]) => p.loaded)).toEqual([
+      11, 20,
+    ]);
+    expect(onDownloadProgress.mock.calls[1][0].total).toBeUndefined();
+  });
+});
+
+describe("FetchClient auth", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const json = (data: unknown, status = 200) =>
+    new Response(JSON.stringify(data), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should authorize every request", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      auth: bearerAuth("abc"),
+    });
+    fetchMock.mockResolvedValueOnce(json({ ok: true }));
+
+    await client.get("/me");
+
+    expect(fetchMock).toHaveBeenCalledWith("https://api.example.com/me", {
+      headers: { Authorization: "Bearer abc" },
+      method: "GET",
+      body: undefined,
+    });
+  });
+
+  it("should allow disabling auth per call", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      auth: bearerAuth("abc"),
+    });
+    fetchMock.mockResolvedValueOnce(json({ ok: true }));
+
+    await client.get("/public", { auth: false });
+
+    expect(fetchMock.mock.calls[0][1].headers).toBeUndefined();
+  });
+
+  it("should not share responses between per-call auth providers", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      dedupe: true,
+      cache: true,
+    });
+    fetchMock.mockImplementation(
+      async (_url, init) =>
+        new Response(JSON.stringify({ user: init.headers?.Authorization }), {
+          headers: {
+            "Content-Type": "application/json",
+            "Cache-Control": "max-age=60",
+          },
+        })
+    );
+
+    const [alice, bob] = await Promise.all([
+      client.get("/me", { auth: bearerAuth("alice") }),
+      client.get("/me", { auth: bearerAuth("bob") }),
+    ]);
+    const later = await client.get("/me", { auth: bearerAuth("bob") });
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(await alice.data()).toEqual({ user: "Bearer alice" });
+    expect(await bob.data()).toEqual({ user: "Bearer bob" });
+    expect(await later.data()).toEqual({ user: "Bearer bob" });
+  });
+
+  it("should not serve responses cached under the client's auth to auth: false calls", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      auth: bearerAuth("abc"),
+      cache: true,
+    });
+    fetchMock.mockImplementation(
+      async (_url, init) =>
+        new Response(JSON.stringify({ user: init.headers?.Authorization }), {
+          headers: {
+            "Content-Type": "application/json",
+            "Cache-Control": "max-age=60",
+          },
+        })
+    );
+
+    await (await client.get("/me")).data();
+    const anonymous = await client.get("/me", { auth: false });
+
+    expect(await anonymous.data()).toEqual({});
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should refresh once and replay concurrent 401s", async () => {
+    const refresh = vi.fn().mockResolvedValue("fresh");
+    const client = new FetchClient("https://api.example.com", {
+      auth: refreshableBearerAuth({ token: "expired", refresh }),
+    });
+    fetchMock.mockImplementation(async (url, init) =>
+      init.headers.Authorization === "Bearer fresh"
+        ? json({ url })
+        : json({ error: "expired" }, 401)
+    );
+
+    const responses = await Promise.all([
+      client.get("/a"),
+      client.post("/b", { name: "x" }),
+    ]);
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(await responses[1].data()).toEqual({
+      url: "https://api.example.com/b",
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(fetchMock.mock.calls[3][1].body).toBe('{"name":"x"}');
+  });
+
+  it("should throw AuthError when the refresh fails", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      auth: refreshableBearerAuth({
+        token: "expired",
+        refresh: () => Promise.reject(new Error("invalid_grant")),
+      }),
+    });
+    fetchMock.mockResolvedValue(json({ error: "expired" }, 401));
+
+    await expect(client.get("/me")).rejects.toThrow(AuthError);
+  });
+
+  it("should throw ClientError when the replay is rejected too", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      auth: refreshableBearerAuth({ token: "t1", refresh: async () => "t2" }),
+    });
+    fetchMock.mockResolvedValue(json({ error: "forbidden" }, 401));
+
+    await expect(client.get("/me")).rejects.toThrow(ClientError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("FetchClient cookies", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should keep the session across requests", async () => {
+    const cookies = new CookieJar();
+    const client = new FetchClient("https://api.example.com", { cookies });
+    const login = new Response(null, { status: 204 });
+    login.headers.append("Set-Cookie", "session=s1; Path=/; HttpOnly");
+    fetchMock
+      .mockResolvedValueOnce(login)
+      .mockResolvedValueOnce(new Response("{}"));
+
+    await client.post("/login", { user: "u" });
+    await client.get("/me");
+
+    expect(fetchMock.mock.calls[0][1].headers).not.toHaveProperty("Cookie");
+    expect(fetchMock.mock.calls[1][1].headers).toEqual({
+      Cookie: "session=s1",
+    });
+  });
+
+  it("should restore a saved session", async () => {
+    const saved = new CookieJar();
+    saved.setCookie("session=s1", "https://api.example.com/");
+    const client = new FetchClient("https://api.example.com", {
+      cookies: new CookieJar(JSON.parse(JSON.stringify(saved))),
+    });
+    fetchMock.mockResolvedValueOnce(new Response("{}"));
+
+    await client.get("/me");
+
+    expect(fetchMock.mock.calls[0][1].headers.Cookie).toBe("session=s1");
+  });
+
+  it("should capture cookies set on a redirect", async () => {
+    const cookies = new CookieJar();
+    const client = new FetchClient("https://api.example.com", { cookies });
+    const login = new Response(null, {
+      status: 302,
+      headers: { Location: "/home" },
+    });
+    login.headers.append("Set-Cookie", "sid=abc; Path=/");
+    fetchMock
+      .mockResolvedValueOnce(login)
+      .mockResolvedValueOnce(new Response("{}"))
+      .mockResolvedValueOnce(new Response("{}"));
+
+    await client.post("/login", { user: "u" });
+    await client.get("/me");
+
+    expect(fetchMock.mock.calls[0][1].redirect).toBe("manual");
+    expect(fetchMock.mock.calls[1][0]).toBe("https://api.example.com/home");
+    expect(fetchMock.mock.calls[1][1]).toMatchObject({
+      method: "GET",
+      body: undefined,
+      headers: { Cookie: "sid=abc" },
+    });
+    expect(fetchMock.mock.calls[1][1].headers).not.toHaveProperty(
+      "Content-Type"
+    );
+    expect(fetchMock.mock.calls[2][1].headers).toEqual({ Cookie: "sid=abc" });
+    expect(cookies.toJSON()).toHaveLength(1);
+  });
+
+  it("should keep the method and body on 307 and drop credentials across origins", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      cookies: new CookieJar(),
+    });
+    fetchMock
+      .mockResolvedValueOnce(
+        new Response(null, {
+          status: 307,
+          headers: { Location: "https://other.example.com/upload" },
+        })
+      )
+      .mockResolvedValueOnce(new Response("{}"));
+
+    await client.put(
+      "/upload",
+      { a: 1 },
+      { headers: { Authorization: "Bearer t" } }
+    );
+
+    expect(fetchMock.mock.calls[1][0]).toBe("https://other.example.com/upload");
+    expect(fetchMock.mock.calls[1][1]).toMatchObject({
+      method: "PUT",
+      body: '{"a":1}',
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(fetchMock.mock.calls[1][1].headers).not.toHaveProperty(
+      "Authorization"
+    );
+  });
+
+  it("should leave redirects to fetch when the caller sets redirect", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      cookies: new CookieJar(),
+    });
+    fetchMock.mockResolvedValueOnce(
+      new Response(null, { status: 302, headers: { Location: "/home" } })
+    );
+
+    const error = await client
+      .get("/login", { redirect: "manual" })
+      .catch((e) => e);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(error.status).toBe(302);
+  });
+
+  it("should stop after too many redirects", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      cookies: new CookieJar(),
+    });
+    fetchMock.mockImplementation(
+      async () =>
+        new Response(null, { status: 302, headers: { Location: "/loop" } })
+    );
+
+    await expect(client.get("/loop")).rejects.toThrow(
+      "Too many redirects: GET https://api.example.com/loop"
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(21);
+  });
+});
+
+describe("FetchClient pagination", () => {
+  let client: FetchClient;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const json = (data: unknown, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(data), {
+      headers: { "Content-Type": "application/json", ...headers },
+    });
+
+  const collect = async <T>(iterator: AsyncIterable<T>) => {
+    const items: T[] = [];
+    for await (const item of iterator) {
+      items.push(item);
+    }
+    return items;
+  };
+
+  beforeEach(() => {
+    client = new FetchClient("https://api.example.com");
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should follow Link headers by default", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        json([1, 2], { Link: '</items?page=2>; rel="next"' })
+      )
+      .mockResolvedValueOnce(json([3]));
+
+    const items = await collect(
+      client.paginate<number>("/items", { query: { page: 1 } })
+    );
+
+    expect(items).toEqual([1, 2, 3]);
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      "https://api.example.com/items?page=1",
+      "https://api.example.com/items?page=2",
+    ]);
+  });
+
+  it("should page with cursors from the body", async () => {
+    fetchMock
+      .mockResolvedValueOnce(json({ results: ["a"], next: "c1" }))
+      .mockResolvedValueOnce(json({ results: ["b"], next: null }));
+
+    const strategy = cursorPagination({
+      items: (body: { results: string[]; next: string | null }) => body.results,
+      cursor: (body) => body.next,
+    });
+    const items = await collect(client.paginate("/feed", { strategy }));
+
+    expect(items).toEqual(["a", "b"]);
+    expect(fetchMock.mock.calls[1][0]).toBe(
+      "https://api.example.com/feed?cursor=c1"
+    );
+  });
+
+  it("should page with offset and limit", async () => {
+    fetchMock
+      .mockResolvedValueOnce(json([1, 2]))
+      .mockResolvedValueOnce(json([3]));
+
+    const items = await collect(
+      client.paginate("/items", { strategy: offsetPagination({ limit: 2 }) })
+    );
+
+    expect(items).toEqual([1, 2, 3]);
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      "https://api.example.com/items?offset=0&limit=2",
+      "https://api.example.com/items?offset=2&limit=2",
+    ]);
+  });
+
+  it("should support custom strategies and yield pages", async () => {
+    fetchMock
+      .mockResolvedValueOnce(json({ page: 1, items: [1], pages: 2 }))
+      .mockResolvedValueOnce(json({ page: 2, items: [2], pages: 2 }));
+    type Body = { page: number; items: number[]; pages: number };
+
+    const pages = await collect(
+      client.pages<Body, number>("/items", {
+        strategy: {
+          items: (body) => body.items,
+          next: ({ data, request }) =>
+            data.page < data.pages
+              ? { ...request, query: { page: data.page + 1 } }
+              : undefined,
+        },
+      })
+    );
+
+    expect(pages.map(({ page, items }) => [page, items])).toEqual([
+      [1, [1]],
+      [2, [2]],
+    ]);
+    expect(await pages[1].response.data()).toEqual(pages[1].data);
+    expect(pages[1].response.status).toBe(200);
+  });
+
+  it("should stop at maxPages", async () => {
+    fetchMock.mockImplementation(async () =>
+      json([1], { Link: '</items?more>; rel="next"' })
+    );
+
+    const items = await collect(client.paginate("/items", { maxPages: 3 }));
+
+    expect(items).toEqual([1, 1, 1]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("should stop at maxItems without fetching another page", async () => {
+    fetchMock.mockImplementation(async () =>
+      json([1, 2], { Link: '</items?more>; rel="next"' })
+    );
+
+    const items = await collect(client.paginate("/items", { maxItems: 4 }));
+
+    expect(items).toEqual([1, 2, 1, 2]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should surface HTTP errors", async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(null, { status: 404, statusText: "Not Found" })
+    );
+
+    await expect(collect(client.paginate("/missing"))).rejects.toThrow(
+      ClientError
+    );
+  });
+});
+
+describe("FetchClient rate limiting", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should queue requests beyond the concurrency limit", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      rateLimit: { concurrency: 1 },
+    });
+    let release: () => void = () => {};
+    fetchMock
+      .mockImplementationOnce(
+        () =>
+          new Promise((resolve) => (release = () => resolve(new Response())))
+      )
+      .mockResolvedValue(new Response());
+
+    const first = client.get("/a");
+    const second = client.get("/b", { dedupe: false });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    release();
+    await Promise.all([first, second]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should send higher-priority calls first", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      rateLimit: { concurrency: 1 },
+    });
+    fetchMock.mockImplementation(async () => new Response());
+
+    await Promise.all([
+      client.get("/first"),
+      client.get("/low"),
+      client.get("/high", { priority: 1 }),
+    ]);
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      "https://api.example.com/first",
+      "https://api.example.com/high",
+      "https://api.example.com/low",
+    ]);
+  });
+
+  it("should reject calls when the queue is full", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      rateLimit: { concurrency: 1, maxQueue: 0 },
+    });
+    fetchMock.mockImplementation(async () => new Response());
+
+    const results = await Promise.allSettled([
+      client.get("/a"),
+      client.get("/b"),
+    ]);
+
+    expect(results[0].status).toBe("fulfilled");
+    expect(results[1]).toMatchObject({
+      status: "rejected",
+      reason: expect.any(RateLimitError),
+    });
+  });
+});
+
+describe("FetchClient circuit breaker", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should fail fast once the upstream keeps failing", async () => {
+    const onStateChange = vi.fn();
+    const client = new FetchClient("https://api.example.com", {
+      circuitBreaker: { minimumRequests: 2, onStateChange },
+    });
+    fetchMock.mockRejectedValue(new TypeError("fetch failed"));
+
+    await expect(client.get("/a")).rejects.toThrow(NetworkError);
+    await expect(client.get("/b")).rejects.toThrow(NetworkError);
+    await expect(client.get("/c")).rejects.toThrow(CircuitOpenError);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(onStateChange).toHaveBeenCalledTimes(1);
+    expect(client.circuits()).toMatchObject([
+      { host: "api.example.com", state: "open" },
+    ]);
+  });
+
+  it("should not retry while the circuit is open", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      retry: { baseDelay: 0, attempts: 5 },
+      circuitBreaker: { minimumRequests: 2 },
+    });
+    fetchMock.mockImplementation(
+      async () => new Response(null, { status: 503 })
+    );
+
+    await expect(client.get("/a")).rejects.toThrow(CircuitOpenError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should count client timeouts as failures", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      timeout: 10,
+      circuitBreaker: { minimumRequests: 2 },
+    });
+    fetchMock.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_, reject) => {
+          const { signal } = init;
+          signal?.addEventListener("abort", () => reject(signal.reason));
+        })
+    );
+
+    await expect(client.get("/a")).rejects.toThrow(TimeoutError);
+    await expect(client.get("/b")).rejects.toThrow(TimeoutError);
+    await expect(client.get("/c")).rejects.toThrow(CircuitOpenError);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(client.circuits()).toMatchObject([
+      { host: "api.example.com", state: "open" },
+    ]);
+  });
+
+  it("should report no circuits without a breaker", () => {
+    expect(new FetchClient("https://api.example.com").circuits()).toEqual([]);
+  });
+});
+
+describe("FetchClient mock transport", () => {
+  it("should serve requests from mock routes without a global fetch", async () => {
+    const fetchSpy = vi.fn();
+    globalThis.fetch = fetchSpy;
+    const mock = new MockTransport()
+      .get("/users/:id", ({ params }) => ({ body: { id: Number(params.id) } }))
+      .post("/users", ({ body }) => ({ status: 201, body }));
+    const client = new FetchClient("https://api.example.com").use(
+      mock.middleware
+    );
+
+    const user = await client.get<{ id: number }>("/users/7");
+    const created = await client.post("/users", { name: "Ada" });
+
+    expect(await user.data()).toEqual({ id: 7 });
+    expect(created.status).toBe(201);
+    expect(await created.data()).toEqual({ name: "Ada" });
+    expect(fetchSpy).not.toHaveBeenCalled();
+    mock.assertDone();
+  });
+
+  it("should surface mocked error statuses as HTTP errors", async () => {
+    const mock = new MockTransport().get("/missing", { status: 404 });
+    const client = new FetchClient("https://api.example.com").use(
+      mock.middleware
+    );
+
+    await expect(client.get("/missing")).rejects.toThrow(ClientError);
+  });
+
+  it("should replay a recorded session offline", async () => {
+    const live = new MockTransport().get("/users/:id", { body: { id: 1 } });
+    const recorder = new HarRecorder();
+    await new FetchClient("https://api.example.com")
+      .use(recorder.middleware)
+      .use(live.middleware)
+      .get("/users/1");
+
+    const client = new FetchClient("https://api.example.com").use(
+      replayHar(await recorder.toHar()).middleware
+    );
+
+    expect(await (await client.get("/users/1")).data()).toEqual({ id: 1 });
+  });
+});
+
+describe("FetchClient defaults", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn().mockImplementation(async () => new Response("{}"));
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should use a custom fetch instead of the global one", async () => {
+    const customFetch = vi.fn().mockResolvedValue(new Response("{}"));
+    const client = new FetchClient("https://api.example.com", {
+      fetch: customFetch,
+    });
+
+    await client.get("/items");
+
+    expect(customFetch).toHaveBeenCalledTimes(1);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should look up the global fetch on every request", async () => {
+    const client = new FetchClient("https://api.example.com");
+    const replacement = vi.fn().mockResolvedValue(new Response("{}"));
+
+    await client.get("/a");
+    globalThis.fetch = replacement;
+    await client.get("/b");
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(replacement).toHaveBeenCalledTimes(1);
+  });
+
+  it("should plug in a mock transport as the fetch implementation", async () => {
+    const mock = new MockTransport().get("/items", { body: [1, 2] });
+    const client = new FetchClient("https://api.example.com", {
+      fetch: mock.fetch,
+    });
+
+    expect(await (await client.get("/items")).data()).toEqual([1, 2]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should merge default headers with per-call headers", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      headers: { Accept: "application/json", "X-Client": "zapyt" },
+    });
+
+    await client.post("/items", { a: 1 }, { headers: { accept: "text/csv" } });
+
+    expect(fetchMock.mock.calls[0][1].headers).toEqual({
+      "X-Client": "zapyt",
+      accept: "text/csv",
+      "Content-Type": "application/json",
+    });
+  });
+
+  it("should accept a Headers instance per call", async () => {
+    const client = new FetchClient("https://api.example.com");
+    const withDefaults = new FetchClient("https://api.example.com", {
+      headers: { "X-Client": "zapyt" },
+    });
+
+    await client.post(
+      "/items",
+      { a: 1 },
+      { headers: new Headers({ Authorization: "Bearer t" }) }
+    );
+    await withDefaults.get("/items", {
+      headers: new Headers({ Authorization: "Bearer t" }),
+    });
+
+    expect(fetchMock.mock.calls[0][1].headers).toEqual({
+      authorization: "Bearer t",
+      "Content-Type": "application/json",
+    });
+    expect(fetchMock.mock.calls[1][1].headers).toEqual({
+      "X-Client": "zapyt",
+      authorization: "Bearer t",
+    });
+  });
+
+  it("should send default RequestInit fields unless overridden per call", async () => {
+    const client = new FetchClient("https://api.example.com", {
+      credentials: "include",
+      redirect: "manual",
+    });
+
+    await client.get("/a");
+    await client.get("/b", { redirect: "follow", keepalive: true });
+
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({
+      credentials: "include",
+      redirect: "manual",
+    });
+    expect(fetchMock.mock.calls[1][1]).toMatchObject({
+      credentials: "include",
+      redirect: "follow",
+      keepalive: true,
+    });
+  });
+
+  it("should derive a child client with merged defaults", async () => {
+    const parent = new FetchClient("https://api.example.com", {
+      headers: { "X-Client": "zapyt", Authorization: "Bearer parent" },
+      retry: { attempts: 2, baseDelay: 0 },
+      mode: "cors",
+    });
+    const seen: string[] = [];
+    parent.use(async (request, next) => {
+      seen.push(request.url);
+      return next(request);
+    });
+
+    const child = parent.extend({
+      headers: { authorization: "Bearer child" },
+      retry: { statuses: [503] },
+    });
+    fetchMock
+      .mockResolvedValueOnce(new Response(null, { status: 503 }))
+      .mockResolvedValueOnce(new Response("{}"));
+    await child.get("/child");
+    await parent.get("/parent");
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(fetchMock.mock.calls[1][1]).toMatchObject({
+      mode: "cors",
+      headers: { "X-Client": "zapyt", authorization: "Bearer child" },
+    });
+    expect(fetchMock.mock.calls[2][1].headers).toEqual({
+      "X-Client": "zapyt",
+      Authorization: "Bearer parent",
+    });
+    expect(seen).toEqual([
+      "https://api.example.com/child",
+      "https://api.example.com/child",
+      "https://api.example.com/parent",
+    ]);
+  });
+
+  it("should not share middleware added to the child with the parent", async () => {
+    const parent = new FetchClient("https://api.example.com");
+    const middleware = vi.fn((request, next) => next(request));
+    parent.extend().use(middleware);
+
+    await parent.get("/items");
+
+    expect(middleware).not.toHaveBeenCalled();
+  });
+});
+
+describe("FetchClient hooks", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi
+      .fn()
+      .mockImplementation(async () => new Response('{"ok":true}'));
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should report each lifecycle stage in order", async () => {
+    const events: string[] = [];
+    const client = new FetchClient("https://api.example.com", {
+      hooks: {
+        onRequestStart: () => events.push("start"),
+        onResponseHeaders: ({ response }) =>
+          events.push(`headers ${response.status}`),
+        onBodyConsumed: () => events.push("body"),
+      },
+    });
+
+    const response = await client.get("/items");
+    events.push("returned");
+    await response.data();
+
+    expect(events).toEqual(["start", "headers 200", "returned", "body"]);
+  });
+
+  it("should include timing data", async () => {
+    const onBodyConsumed = vi.fn();
+    const client = new FetchClient("https://api.example.com", {
+      hooks: { onBodyConsumed },
+    });
+
+    await (await client.get("/items")).data();
+
+    expect(onBodyConsumed).toHaveBeenCalledWith({
+      request: expect.objectContaining({
+        method: "GET",
+        url: "https://api.example.com/items",
+      }),
+      response: expect.any(Response),
+      startTime: expect.any(Number),
+      duration: expect.any(Number),
+    });
+    expect(onBodyConsumed.mock.calls[0][0].duration).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should report retries alongside the per-policy callback", async () => {
+    const onRetry = vi.fn();
+    const hookRetry = vi.fn();
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 503 }));
+    const client = new FetchClient("https://api.example.com", {
+      retry: { baseDelay: 0, onRetry },
+      hooks: { onRetry: hookRetry },
+    });
+
+    await client.get("/items");
+
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(hookRetry).toHaveBeenCalledWith(
+      expect.objectContaining({
+        attempt: 1,
+        response: expect.any(Response),
+        duration: expect.any(Number),
+      })
+    );
+  });
+
+  it("should report errors from the request and from the body", async () => {
+    const onError = vi.fn();
+    const client = new FetchClient("https://api.example.com", {
+      hooks: { onError },
+    });
+
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 404 }));
+    await expect(client.get("/missing")).rejects.toThrow(ClientError);
+    fetchMock.mockResolvedValueOnce(
+      new Response("{oops", { headers: { "Content-Type": "application/json" } })
+    );
+    const response = await client.get("/broken");
+    await expect(response.data()).rejects.toThrow(SyntaxError);
+
+    expect(onError).toHaveBeenCalledTimes(2);
+    expect(onError.mock.calls[0][0].error).toBeInstanceOf(ClientError);
+    expect(onError.mock.calls[1][0].error).toBeInstanceOf(SyntaxError);
+  });
+
+  it("should propagate trace context through the tracing middleware", async () => {
+    const span = {
+      spanContext: () => ({
+        traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+        spanId: "00f067aa0ba902b7",
+        traceFlags: 1,
+      }),
+      setAttribute: vi.fn(),
+      setStatus: vi.fn(),
+      recordException: vi.fn(),
+      end: vi.fn(),
+    };
+    const client = new FetchClient("https://api.example.com");
+    client.use(tracingMiddleware({ startSpan: () => span }));
+
+    await client.get("/items");
+
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({
+      traceparent: "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+    });
+    expect(span.end).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("FetchClient logging", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn().mockImplementation(
+      async () =>
+        new Response('{"id":1,"secret":"s3cr3t"}', {
+          headers: { "Content-Type": "application/json" },
+        })
+    );
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should log without exposing credentials or consuming the body", async () => {
+    const sink = vi.fn();
+    const client = new FetchClient("https://api.example.com", {
+      auth: bearerAuth("token"),
+    });
+    client.use(
+      loggingMiddleware({
+        sink,
+        headers: true,
+        body: true,
+        redactFields: ["secret"],
+      })
+    );
+
+    const response = await client.get("/items");
+
+    expect(await response.data()).toEqual({ id: 1, secret: "s3cr3t" });
+    await vi.waitFor(() => expect(sink).toHaveBeenCalledTimes(2));
+    expect(sink.mock.calls[0][0].requestHeaders).toMatchObject({
+      authorization: "[REDACTED]",
+    });
+    expect(sink.mock.calls[1][0].responseBody).toBe(
+      '{"id":1,"secret":"[REDACTED]"}'
+    );
+    expect(JSON.stringify(sink.mock.calls)).not.toContain("token");
+  });
+
+  it("should not log keys from apiKeyAuth", async () => {
+    const sink = vi.fn();
+    const headerClient = new FetchClient("https://api.example.com", {
+      auth: apiKeyAuth("header-key"),
+    });
+    const queryClient = new FetchClient("https://api.example.com", {
+      auth: apiKeyAuth("query-key", { in: "query" }),
+    });
+    [headerClient, queryClient].forEach((client) =>
+      client.use(loggingMiddleware({ sink, headers: true }))
+    );
+
+    await headerClient.get("/items");
+    await queryClient.get("/items");
+
+    expect(fetchMock.mock.calls[1][0]).toContain("query-key");
+    expect(JSON.stringify(sink.mock.calls)).not.toMatch(/header-key|query-key/);
+  });
+});
+
+describe("FetchClient response parsing", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should parse +json responses as JSON", async () => {
+    fetchMock.mockResolvedValue(
+      new Response('{"data":[]}', {
+        headers: { "Content-Type": "application/vnd.api+json" },
+      })
+    );
+    const client = new FetchClient("https://api.example.com");
+
+    expect(await (await client.get("/items")).data()).toEqual({ data: [] });
+  });
+
+  it("should use registered parsers, merged across extend", async () => {
+    fetchMock.mockImplementation(
+      async (_url, init) =>
+        new Response("a,b\n1,2", {
+          headers: {
+            "Content-Type": init.headers?.Accept ?? "text/csv",
+          },
+        })
+    );
+    const parent = new FetchClient("https://api.example.com", {
+      parsers: {
+        "text/csv": async (response) =>
+          (await response.text()).split("\n").map((row) => row.split(",")),
+      },
+    });
+    const child = parent.extend({
+      parsers: { "text/tab-separated-values": () => "tsv" },
+    });
+
+    expect(await (await child.get("/report")).data()).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+    expect(
+      await (
+        await child.get("/report", {
+          headers: { Accept: "text/tab-separated-values" },
+        })
+      ).data()
+    ).toBe("tsv");
+  });
+
+  it("should honour a per-call responseType", async () => {
+    fetchMock.mockResolvedValue(
+      new Response('{"a":1}', {
+        headers: { "Content-Type": "application/json" },
+      })
+    );
+    const client = new FetchClient("https://api.example.com");
+
+    const data = await (
+      await client.get<string>("/raw", { responseType: "text" })
+    ).data();
+
+    expect(data).toBe('{"a":1}');
+  });
+});
+
+describe("FetchClient problem details", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should parse problem+json error bodies onto the error", async () => {
+    const body = {
+      type: "https://example.com/probs/validation",
+      title: "Validation failed",
+      status: 422,
+      detail: "Name is required",
+      errors: [{ pointer: "#/name" }],
+    };
+    fetchMock.mockResolvedValue(
+      new Response(JSON.stringify(body), {
+        status: 422,
+        statusText: "Unprocessable Entity",
+        headers: { "Content-Type": "application/problem+json" },
+      })
+    );
+    const client = new FetchClient("https://api.example.com");
+
+    const error = await client.post("/users", {}).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ClientError);
+    expect(error.message).toBe(
+      "Client error: [422] (Validation failed: Name is required)"
+    );
+    expect(error.problem).toEqual(body);
+    expect(await error.body()).toEqual(body);
+  });
+
+  it("should keep the status text for other error bodies", async () => {
+    fetchMock.mockResolvedValue(
+      new Response('{"message":"nope"}', {
+        status: 500,
+        statusText: "Internal Server Error",
+        headers: { "Content-Type": "application/json" },
+      })
+    );
+    const client = new FetchClient("https://api.example.com");
+
+    const error = await client.get("/users").catch((e) => e);
+
+    expect(error.message).toBe("Server error: [500] (Internal Server Error)");
+    expect(error.problem).toBeUndefined();
+  });
+
+  it("should use a custom problem parser", async () => {
+    fetchMock.mockResolvedValue(
+      new Response('{"error":{"code":"E_QUOTA","message":"Quota exceeded"}}', {
+        status: 429,
+        statusText: "Too Many Requests",
+        headers: { "Content-Type": "application/json" },
+      })
+    );
+    const client = new FetchClient("https://api.example.com", {
+      problemParser: async (response) =>
+        (await parseProblemDetails(response.clone())) ??
+        response.json().then(({ error }) => ({
+          type: "about:blank",
+          title: error.code,
+          detail: error.message,
+        })),
+    });
+
+    const error = await client.get("/users").catch((e) => e);
+
+    expect(error.message).toBe("Client error: [429] (E_QUOTA: Quota exceeded)");
+    expect(error.problem).toMatchObject({ title: "E_QUOTA" });
+  });
+});
@@ -1,115 +1,828 @@
 import type {
+  AuthProvider,
+  CacheEntry,
+  CircuitStatus,
+  Codec,
+  CookieStore,
   FetchClientInterface,
+  FetchClientOptions,
   FetchOptions,
+  FetchRequest,
   FetchResponse,
+  Middleware,
+  NdjsonOptions,
+  Page,
+  PageRequest,
+  PaginateOptions,
+  ProgressCallback,
+  RequestOptions,
+  RetryInfo,
+  RetryOptions,
+  ServerSentEvent,
+  SseOptions,
 } from "./types";
-import { handleError, getResponseType } from "./utils";
+import { AbortError, NetworkError } from "./errors";
+import { withAuth } from "./auth";
+import { HttpCache } from "./cache";
+import { RequestDeduper } from "./dedupe";
+import { RateLimiter } from "./ratelimit";
+import { createLifecycle } from "./hooks";
+import { CircuitBreaker } from "./breaker";
+import { RetryPolicy, getRetryDelay, resolveRetryPolicy } from "./retry";
+import { abortable, createRequestSignal } from "./timeout";
+import { buildUrl } from "./url";
+import { validate } from "./validate";
+import { isStreamBody, serializeBody } from "./body";
+import { EventStream } from "./sse";
+import { NdjsonStream } from "./ndjson";
+import { getItems, linkPagination } from "./paginate";
+import { readProblemDetails } from "./problem";
+import { getDownloadTotal, toUploadBody, trackProgress } from "./progress";
+import {
+  handleError,
+  getHeader,
+  getResponseType,
+  isPlainObject,
+  mergeHeaders,
+  sleep,
+} from "./utils";
+
+export {
+  HttpError,
+  ClientError,
+  ServerError,
+  NetworkError,
+  TimeoutError,
+  AbortError,
+  AuthError,
+  RateLimitError,
+  CircuitOpenError,
+  UnmatchedRequestError,
+  ValidationError,
+  RequestError,
+} from "./errors";
+export {
+  jsonCodec,
+  dateJsonCodec,
+  superjsonCodec,
+  createSuperjsonCodec,
+} from "./codec";
+export { MemoryCacheStore } from "./cache";
+export {
+  bearerAuth,
+  basicAuth,
+  apiKeyAuth,
+  refreshableBearerAuth,
+} from "./auth";
+export { CookieJar } from "./cookies";
+export { linkPagination, cursorPagination, offsetPagination } from "./paginate";
+export { MockTransport } from "./mock";
+export { tracingMiddleware } from "./tracing";
+export { loggingMiddleware } from "./logger";
+export { parseProblemDetails } from "./problem";
+export { HarRecorder, replayHar, harFixture } from "./har";
+export { EventStream, EventStreamParser } from "./sse";
+export { NdjsonStream } from "./ndjson";
+
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+const MAX_REDIRECTS = 20;
+
+// Follows the fetch spec: 303 (and 301/302 after a POST) becomes a GET
+// without a body, and Authorization isn't sent on to another origin.
+const redirectRequest = (
+  request: FetchRequest,
+  response: Response
+): FetchRequest | undefined => {
+  const location = response.headers.get("Location");
+  if (!REDIRECT_STATUSES.includes(response.status) || location === null) {
+    return undefined;
+  }
+  const url = new URL(location, request.url);
+  let { method, body, headers } = request;
+  if (
+    (response.status === 303 && method !== "GET" && method !== "HEAD") ||
+    ((response.status === 301 || response.status === 302) && method === "POST")
+  ) {
+    method = "GET";
+    body = undefined;
+    headers =
+      headers &&
+      mergeHeaders(headers, {
+        "Content-Type": undefined,
+        "Content-Length": undefined,
+      });
+  } else if (isStreamBody(body)) {
+    // a consumed stream can't be sent again
+    return undefined;
+  }
+  if (headers && url.origin !== new URL(request.url).origin) {
+    headers = mergeHeaders(headers, { Authorization: undefined });
+  }
+  return { ...request, url: url.toString(), method, body, headers };
+};
+
+const REQUEST_INIT_OPTIONS = [
+  "credentials",
+  "mode",
+  "redirect",
+  "keepalive",
+] as const;
+
+// Merged one level per key; opaque values such as auth providers, codecs
+// and stores are replaced rather than merged.
+const NESTED_OPTIONS = [
+  "retry",
+  "rateLimit",
+  "circuitBreaker",
+  "cache",
+  "parsers",
+] as const;
+
+const mergeClientOptions = (
+  parent: FetchClientOptions,
+  child: FetchClientOptions
+): FetchClientOptions => {
+  const merged: FetchClientOptions = {
+    ...parent,
+    ...child,
+    headers: mergeHeaders(parent.headers, child.headers),
+  };
+  NESTED_OPTIONS.forEach((key) => {
+    const base = parent[key];
+    const override = child[key];
+    if (isPlainObject(base) && isPlainObject(override)) {
+      Object.assign(merged, { [key]: { ...base, ...override } });
+    }
+  });
+  return merged;
+};
+
+type SendOptions = {
+  auth?: AuthProvider;
+  onUploadProgress?: ProgressCallback;
+  priority?: number;
+};
 
 export class FetchClient implements FetchClientInterface {
   private baseUrl: string;
+  private middlewares: Middleware[] = [];
+  private retry?: RetryOptions | false;
+  private timeout?: number | false;
+  private codec?: Codec;
+  private cache?: HttpCache;
+  private dedupe: boolean;
+  private auth?: AuthProvider;
+  private cookies?: CookieStore;
+  private limiter?: RateLimiter;
+  private breaker?: CircuitBreaker;
+  private deduper = new RequestDeduper();
+  private defaults: FetchClientOptions;
 
-  constructor(baseUrl: string) {
+  constructor(baseUrl: string, options: FetchClientOptions = {}) {
     if (!URL.canParse(baseUrl)) {
       throw new Error("Invalid base URL");
     }
     this.baseUrl = baseUrl;
+    this.defaults = options;
+    this.retry = options.retry;
+    this.timeout = options.timeout;
+    this.codec = options.codec;
+    this.dedupe = options.dedupe ?? true;
+    this.auth = options.auth;
+    this.cookies = options.cookies;
+    if (options.rateLimit) {
+      this.limiter = new RateLimiter(options.rateLimit);
+    }
+    if (options.circuitBreaker) {
+      this.breaker = new CircuitBreaker(options.circuitBreaker);
+    }
+    if (options.cache) {
+      this.cache = new HttpCache(options.cache === true ? {} : options.cache);
+    }
   }
 
-  async get<T = unknown>(
-    url: string,
-    options?: FetchOptions
+  use(middleware: Middleware): this {
+    this.middlewares.push(middleware);
+    return this;
+  }
+
+  circuits(): CircuitStatus[] {
+    return this.breaker?.status() ?? [];
+  }
+
+  // The child gets its own cache, limiter and breaker, but shares
+  // instances passed in options, such as a cookie jar.
+  extend(options: FetchClientOptions = {}): FetchClient {
+    const child = new FetchClient(
+      this.baseUrl,
+      mergeClientOptions(this.defaults, options)
+    );
+    this.middlewares.forEach((middleware) => child.use(middleware));
+    return child;
+  }
+
+  // With a jar, redirects are followed here rather than by fetch, so the
+  // cookies set by each redirect response are captured and sent on.
+  private async transport(
+    request: FetchRequest,
+    onUploadProgress?: ProgressCallback
+  ): Promise<Response> {
+    const follow = this.cookies !== undefined && request.redirect === undefined;
+    let current = request;
+    for (let redirects = 0; ; redirects++) {
+      const response = await this.fetchOnce(
+        follow ? { ...current, redirect: "manual" } : current,
+        onUploadProgress
+      );
+      const next = follow ? redirectRequest(current, response) : undefined;
+      if (!next) {
+        return response;
+      }
+      await response.body?.cancel();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new NetworkError(
+          `Too many redirects: ${request.method} ${request.url}`,
+          {
+            method: request.method,
+            url: request.url,
+          }
+        );
+      }
+      current = next;
+    }
+  }
+
+  private async fetchOnce(
+    request: FetchRequest,
+    onUploadProgress?: ProgressCallback
+  ): Promise<Response> {
+    const { url, method, signal, credentials, mode, redirect, keepalive } =
+      request;
+    let { headers, body } = this.cookies?.apply(request) ?? request;
+
+    if (onUploadProgress && body != null) {
+      // Wrapped per attempt, so a retry re-sends the original body.
+      const upload = await toUploadBody(body, headers);
+      body = trackProgress(upload.body, upload.total, onUploadProgress);
+      if (
+        upload.contentType &&
+        getHeader(headers, "Content-Type") === undefined
+      ) {
+        headers = { ...headers, "Content-Type": upload.contentType };
+      }
+    }
+
+    try {
+      signal?.throwIfAborted();
+      const init: RequestInit = {
+        headers,
+        method,
+        body,
+        signal,
+        credentials,
+        mode,
+        redirect,
+        keepalive,
+      };
+      if (isStreamBody(body)) {
+        // Node's fetch refuses streaming request bodies without it
+        Object.assign(init, { duplex: "half" });
+      }
+      const response = await (this.defaults.fetch ?? fetch)(url, init);
+      this.cookies?.capture(response.url || url, response.headers);
+      return response;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      throw new NetworkError(`Network error: ${method} ${url}`, {
+        method,
+        url,
+        cause: error,
+      });
+    }
+  }
+
+  private send(
+    request: FetchRequest,
+    { auth, onUploadProgress, priority = 0 }: SendOptions = {}
+  ): Promise<Response> {
+    const run = (index: number, current: FetchRequest): Promise<Response> => {
+      const middleware = this.middlewares[index];
+      if (!middleware) {
+        const transport = () =>
+          this.limiter
+            ? this.limiter.schedule(current, priority, () =>
+                this.transport(current, onUploadProgress)
+              )
+            : this.transport(current, onUploadProgress);
+        // checked before queueing, so an open circuit fails fast
+        return this.breaker
+          ? this.breaker.run(current, transport)
+          : transport();
+      }
+      return middleware(current, (next) => run(index + 1, next));
+    };
+
+    return auth
+      ? withAuth(auth, request, (next) => run(0, next))
+      : run(0, request);
+  }
+
+  private async execute(
+    request: FetchRequest,
+    retry?: RetryPolicy,
+    options?: SendOptions
+  ): Promise<Response> {
+    for (let attempt = 1; ; attempt++) {
+      let response: Response | undefined;
+      let error: unknown;
+      try {
+        response = await this.send(request, options);
+      } catch (e) {
+        error = e;
+      }
+
+      const delay =
+        retry && !request.signal?.aborted
+          ? getRetryDelay(retry, attempt, request, { response, error })
+          : undefined;
+      if (delay === undefined) {
+        if (!response) {
+          throw error;
+        }
+        return response;
+      }
+
+      retry?.onRetry?.({ attempt, delay, request, response, error });
+      await response?.body?.cancel();
+      await sleep(delay, request.signal);
+    }
+  }
+
+  private revalidate(
+    cache: HttpCache,
+    request: FetchRequest,
+    entry: CacheEntry,
+    options: SendOptions
+  ) {
+    // The caller already has its response; their signal shouldn't cancel this.
+    const { signal, ...detached } = request;
+    this.send(cache.withValidators(detached, entry), options)
+      .then(async (response) => {
+        if (response.status === 304) {
+          await cache.refresh(request, entry, response);
+        } else {
+          await cache.store(request, response);
+        }
+      })
+      .catch(() => {});
+  }
+
+  private trackDownload(response: Response, options: FetchOptions): Response {
+    const { onDownloadProgress } = options;
+    if (!onDownloadProgress || !response.body) {
+      return response;
+    }
+    const { status, statusText, headers } = response;
+    return new Response(
+      trackProgress(
+        response.body,
+        getDownloadTotal(headers),
+        onDownloadProgress
+      ),
+      { status, statusText, headers }
+    );
+  }
+
+  private async dispatch<T>(
+    init: FetchRequest,
+    options: FetchOptions<T> = {}
   ): Promise<FetchResponse<T>> {
-    const { headers } = options ?? {};
+    const resolved = resolveRetryPolicy(this.retry, options.retry);
+    const codec = options.codec ?? this.codec;
+    const auth = options.auth === false ? undefined : options.auth ?? this.auth;
+    const { priority } = options;
+    const { signal, clear } = createRequestSignal(
+      init.method,
+      init.url,
+      options.signal,
+      options.timeout ?? this.timeout
+    );
+    const request: FetchRequest = signal ? { ...init, signal } : init;
+    const lifecycle = createLifecycle(this.defaults.hooks, request);
+    const retry =
+      resolved && lifecycle
+        ? {
+            ...resolved,
+            onRetry: (info: RetryInfo) => {
+              resolved.onRetry?.(info);
+              lifecycle.retry(info);
+            },
+          }
+        : resolved;
+    // Cache and dedupe keys don't cover credentials, so a per-call
+    // provider's responses mustn't be shared with other callers.
+    const sharedAuth = options.auth === undefined || options.auth === this.auth;
+    const cache =
+      sharedAuth && options.cache !== false && request.method === "GET"
+        ? this.cache
+        : undefined;
 
-    const fetchUrl = this.baseUrl + url;
-    const response = await fetch(fetchUrl, { headers, method: "GET" });
+    let response: Response;
+    let read = () => response;
+    try {
+      const cached = cache ? await cache.lookup(request) : undefined;
+      if (cache && cached && cached.state !== "revalidate") {
+        if (cached.state === "stale") {
+          this.revalidate(cache, request, cached.entry, { auth });
+        }
+        read = () => cache.toResponse(cached.entry);
+        response = read();
+      } else {
+        const outgoing =
+          cache && cached
+            ? cache.withValidators(request, cached.entry)
+            : request;
+        const key =
+          sharedAuth && (options.dedupe ?? this.dedupe)
+            ? this.deduper.key(outgoing)
+            : undefined;
+        response = key
+          ? await this.deduper.run(key, outgoing, (shared) =>
+              this.execute(shared, retry, { auth, priority })
+            )
+          : await this.execute(outgoing, retry, {
+              auth,
+              onUploadProgress: options.onUploadProgress,
+              priority,
+            });
+        if (cache && cached && response.status === 304) {
+          const entry = await cache.refresh(request, cached.entry, response);
+          read = () => cache.toResponse(entry);
+          response = read();
+        } else if (cache) {
+          await cache.store(request, response);
+        } else if (
+          this.cache &&
+          response.ok &&
+          !SAFE_METHODS.includes(request.method)
+        ) {
+          await this.cache.invalidate(request.url);
+        }
+      }
 
-    const { status, statusText, ok } = response;
-    if (!ok) {
-      handleError(status, statusText);
+      lifecycle?.response(response);
+      const { status, statusText, ok } = response;
+      if (!ok) {
+        const problem = await abortable(
+          readProblemDetails(response, this.defaults.problemParser),
+          signal
+        );
+        handleError(status, statusText, {
+          response,
+          codec,
+          parsers: this.defaults.parsers,
+          problem,
+          method: request.method,
+          url: response.url || request.url,
+        });
+      }
+    } catch (error) {
+      clear();
+      lifecycle?.error(error);
+      throw error;
     }
 
+    const { status, statusText, headers } = response;
+
     return {
-      data: () => getResponseType<T>(response),
+      data: async () => {
+        if (request.method === "HEAD") {
+          clear();
+          lifecycle?.bodyConsumed(response);
+          return undefined as T;
+        }
+        try {
+          // Deduplicated bodies aren't tied to this caller's signal, so
+          // race the read against it rather than relying on fetch.
+          const data = await abortable(
+            getResponseType<T>(this.trackDownload(read(), options), codec, {
+              parsers: this.defaults.parsers,
+              responseType: options.responseType,
+            }),
+            signal
+          );
+          const validated = options.schema
+            ? await validate(options.schema, data, request)
+            : data;
+          lifecycle?.bodyConsumed(response);
+          return validated;
+        } catch (error) {
+          const reason = signal?.aborted ? signal.reason : error;
+          lifecycle?.error(reason);
+          throw reason;
+        } finally {
+          clear();
+        }
+      },
       status,
       statusText,
+      headers,
     };
   }
 
+  async request<T = unknown, K = unknown>({
+    method,
+    url,
+    body,
+    ...options
+  }: RequestOptions<T, K>): Promise<FetchResponse<T>> {
+    const { query, arrayFormat, payloadSchema } = options;
+
+    const fetchUrl = buildUrl(this.baseUrl, url, query, arrayFormat);
+    const validated =
+      payloadSchema && body !== undefined
+        ? await validate(payloadSchema, body, { method, url: fetchUrl })
+        : body;
+    const { body: payload, contentType } = serializeBody(
+      validated,
+      options.codec ?? this.codec
+    );
+    const merged = mergeHeaders(this.defaults.headers, options.headers);
+    const headers =
+      contentType && getHeader(merged, "Content-Type") === undefined
+        ? { ...merged, "Content-Type": contentType }
+        : merged;
+    const init: FetchRequest = {
+      url: fetchUrl,
+      headers,
+      method: method.toUpperCase(),
+      body: payload,
+    };
+    REQUEST_INIT_OPTIONS.forEach((key) => {
+      const value = options[key] ?? this.defaults[key];
+      if (value !== undefined) {
+        Object.assign(init, { [key]: value });
+      }
+    });
+
+    return this.dispatch<T>(init, options);
+  }
+
+  async get<T = unknown>(
+    url: string,
+    options?: FetchOptions<T>
+  ): Promise<FetchResponse<T>> {
+    return this.request<T>({ ...options, method: "GET", url });
+  }
+
   async post<T = unknown, K = unknown>(
     url: string,
     payload: K,
-    options?: FetchOptions
+    options?: FetchOptions<T, K>
   ): Promise<FetchResponse<T>> {
-    const fetchUrl = this.baseUrl + url;
-    const { headers } = options ?? {};
-
-    const body = JSON.stringify(payload); // TODO: use superjson?
-    const response = await fetch(fetchUrl, {
-      headers,
+    return this.request<T, K>({
+      ...options,
       method: "POST",
-      body,
+      url,
+      body: payload,
     });
-
-    const { status, statusText, ok } = response;
-    if (!ok) {
-      handleError(status, statusText);
-    }
-
-    return {
-      data: () => getResponseType<T>(response),
-      status,
-      statusText,
-    };
   }
 
   async put<T = unknown, K = unknown>(
     url: string,
     payload: K,
-    options?: FetchOptions
+    options?: FetchOptions<T, K>
   ): Promise<FetchResponse<T>> {
-    const fetchUrl = this.baseUrl + url;
-    const { headers } = options ?? {};
-
-    const body = JSON.stringify(payload); // TODO: use superjson?
-
-    const response = await fetch(fetchUrl, {
-      headers,
+    return this.request<T, K>({
+      ...options,
       method: "PUT",
-      body,
+      url,
+      body: payload,
     });
+  }
 
-    const { status, statusText, ok } = response;
-    if (!ok) {
-      handleError(status, statusText);
-    }
-
-    return {
-      data: () => getResponseType<T>(response),
-      status,
-      statusText,
-    };
+  async patch<T = unknown, K = unknown>(
+    url: string,
+    payload: K,
+    options?: FetchOptions<T, K>
+  ): Promise<FetchResponse<T>> {
+    return this.request<T, K>({
+      ...options,
+      method: "PATCH",
+      url,
+      body: payload,
+    });
   }
 
   async delete<T = unknown>(
     url: string,
-    options?: FetchOptions
+    options?: FetchOptions<T>
   ): Promise<FetchResponse<T>> {
-    const { headers } = options ?? {};
-    const fetchUrl = this.baseUrl + url;
-    const response = await fetch(fetchUrl, {
-      headers,
-      method: "DELETE",
+    return this.request<T>({ ...options, method: "DELETE", url });
+  }
+
+  async head(
+    url: string,
+    options?: FetchOptions<undefined>
+  ): Promise<FetchResponse<undefined>> {
+    return this.request<undefined>({ ...options, method: "HEAD", url });
+  }
+
+  async options<T = unknown>(
+    url: string,
+    options?: FetchOptions<T>
+  ): Promise<FetchResponse<T>> {
+    return this.request<T>({ ...options, method: "OPTIONS", url });
+  }
+
+  async *pages<P = unknown, I = unknown>(
+    url: string,
+    {
+      strategy = linkPagination<P, I>(),
+      maxPages = Infinity,
+      ...options
+    }: Omit<PaginateOptions<P, I>, "maxItems"> = {}
+  ): AsyncGenerator<Page<P, I>> {
+    const first = { url, query: options.query };
+    let request: PageRequest | undefined = strategy.start?.(first) ?? first;
+
+    for (let page = 1; request && page <= maxPages; page++) {
+      const response = await this.get<P>(request.url, {
+        ...options,
+        query: request.query,
+      });
+      const data = await response.data();
+      const items = getItems(strategy, data);
+      const read = { ...response, data: async () => data };
+
+      yield { data, items, response: read, page };
+
+      request = await strategy.next({
+        data,
+        items,
+        request,
+        response: read,
+        url: buildUrl(
+          this.baseUrl,
+          request.url,
+          request.query,
+          options.arrayFormat
+        ),
+        page,
+      });
+    }
+  }
+
+  async *paginate<I = unknown, P = unknown>(
+    url: string,
+    { maxItems = Infinity, ...options }: PaginateOptions<P, I> = {}
+  ): AsyncGenerator<I> {
+    if (maxItems <= 0) {
+      return;
+    }
+    let count = 0;
+    for await (const { items } of this.pages<P, I>(url, options)) {
+      for (const item of items) {
+        yield item;
+        // stop before the next page is requested
+        if (++count >= maxItems) {
+          return;
+        }
+      }
+    }
+  }
+
+  async *sse(
+    url: string,
+    {
+      method = "GET",
+      body,
+      lastEventId,
+      reconnect = true,
+      retryDelay = 3000,
+      maxRetries = Infinity,
+      ...options
+    }: SseOptions = {}
+  ): AsyncGenerator<ServerSentEvent> {
+    const { signal } = options;
+    const aborted = () =>
+      new AbortError(`Request aborted: ${method} ${url}`, {
+        method,
+        url,
+        cause: signal?.reason,
+      });
+    let eventId = lastEventId;
+    let delay = retryDelay;
+
+    for (let retries = 0; ; retries++) {
+      let stream: EventStream | undefined;
+      const onAbort = () => stream?.cancel();
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      try {
+        const response = await this.request<EventStream>({
+          cache: false,
+          dedupe: false,
+          timeout: false,
+          ...options,
+          method,
+          url,
+          body,
+          headers: mergeHeaders(
+            mergeHeaders({ Accept: "text/event-stream" }, options.headers),
+            eventId ? { "Last-Event-ID": eventId } : undefined
+          ),
+        });
+        // 204 is the server's way of telling clients to stop reconnecting
+        if (response.status === 204) {
+          return;
+        }
+
+        const data = await response.data();
+        if (!(data instanceof EventStream)) {
+          throw new Error(
+            `Expected text/event-stream, got ${response.headers.get(
+              "Content-Type"
+            )}`
+          );
+        }
+        stream = data;
+        for await (const event of stream) {
+          retries = 0;
+          yield event;
+        }
+      } catch (error) {
+        // Once connected, any read failure is a dropped connection.
+        if (signal?.aborted || !(stream || error instanceof NetworkError)) {
+          throw error;
+        }
+      } finally {
+        signal?.removeEventListener("abort", onAbort);
+        eventId = stream?.lastEventId || eventId;
+        delay = stream?.retry ?? delay;
+      }
+
+      if (signal?.aborted) {
+        throw aborted();
+      }
+      if (!reconnect || retries >= maxRetries) {
+        return;
+      }
+      await sleep(delay, signal).catch(() => {
+        throw aborted();
+      });
+    }
+  }
+
+  async *ndjson<T = unknown>(
+    url: string,
+    { method = "GET", body, schema, ...options }: NdjsonOptions<T> = {}
+  ): AsyncGenerator<T> {
+    const { signal } = options;
+    const response = await this.request<NdjsonStream>({
+      cache: false,
+      dedupe: false,
+      timeout: false,
+      ...options,
+      method,
+      url,
+      body,
+      headers: mergeHeaders(
+        { Accept: "application/x-ndjson" },
+        options.headers
+      ),
     });
-    const { status, statusText, ok } = response;
-    if (!ok) {
-      handleError(status, statusText);
+
+    const data = await response.data();
+    if (!(data instanceof NdjsonStream)) {
+      throw new Error(
+        `Expected application/x-ndjson, got ${response.headers.get(
+          "Content-Type"
+        )}`
+      );
     }
 
-    return {
-      data: () => getResponseType<T>(response),
-      status,
-      statusText,
-    };
+    const stream = schema
+      ? data.withSchema(schema, { method, url })
+      : (data as NdjsonStream<T>);
+    const onAbort = () => stream.cancel();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    try {
+      yield* stream;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+
+    if (signal?.aborted) {
+      throw new AbortError(`Request aborted: ${method} ${url}`, {
+        method,
+        url,
+        cause: signal.reason,
+      });
+    }
   }
 }
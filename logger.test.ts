@@ -0,0 +1,271 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  loggingMiddleware,
+  redactBody,
+  redactHeaders,
+  redactUrl,
+} from "./logger";
+import type { LogEntry } from "./logger";
+import type { FetchRequest } from "./types";
+
+const request: FetchRequest = {
+  url: "https://api.example.com/items",
+  method: "POST",
+  headers: {
+    Authorization: "Bearer secret",
+    "Content-Type": "application/json",
+  },
+  body: '{"name":"widget","password":"hunter2"}',
+};
+
+const json = (body: unknown, init: ResponseInit = {}) =>
+  new Response(JSON.stringify(body), {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+  });
+
+describe("redactHeaders", () => {
+  it("should redact credentials and configured headers", () => {
+    expect(
+      redactHeaders(
+        {
+          Authorization: "Bearer secret",
+          Cookie: "session=abc",
+          "X-API-Key": "key",
+          Accept: "application/json",
+        },
+        ["x-api-key"]
+      )
+    ).toEqual({
+      authorization: "[REDACTED]",
+      cookie: "[REDACTED]",
+      "x-api-key": "[REDACTED]",
+      accept: "application/json",
+    });
+  });
+
+  it("should redact Set-Cookie response headers", () => {
+    const headers = new Headers();
+    headers.append("Set-Cookie", "session=abc");
+
+    expect(redactHeaders(headers)).toEqual({ "set-cookie": "[REDACTED]" });
+  });
+});
+
+describe("redactHeaders defaults", () => {
+  it("should redact API key and proxy credentials", () => {
+    expect(
+      redactHeaders({ "X-API-Key": "key", "Proxy-Authorization": "Basic x" })
+    ).toEqual({
+      "proxy-authorization": "[REDACTED]",
+      "x-api-key": "[REDACTED]",
+    });
+  });
+});
+
+describe("redactUrl", () => {
+  it("should mask configured query parameters case-insensitively", () => {
+    expect(
+      redactUrl("https://api.example.com/a?Token=abc&page=2&X-API-Key=k#top", [
+        "token",
+      ])
+    ).toBe(
+      "https://api.example.com/a?Token=[REDACTED]&page=2&X-API-Key=[REDACTED]#top"
+    );
+  });
+
+  it("should leave URLs without matching parameters unchanged", () => {
+    expect(redactUrl("https://api.example.com/a?page=2")).toBe(
+      "https://api.example.com/a?page=2"
+    );
+    expect(redactUrl("https://api.example.com/a")).toBe(
+      "https://api.example.com/a"
+    );
+  });
+});
+
+describe("redactBody", () => {
+  it("should leave bodies alone without configured fields", () => {
+    expect(redactBody('{"password":"x"}')).toBe('{"password":"x"}');
+  });
+
+  it("should redact nested JSON fields case-insensitively", () => {
+    const text = JSON.stringify({
+      user: { name: "ada", Password: "x" },
+      tokens: [{ token: "t1" }, { token: { value: "t2" } }],
+    });
+
+    expect(JSON.parse(redactBody(text, ["password", "token"]))).toEqual({
+      user: { name: "ada", Password: "[REDACTED]" },
+      tokens: [{ token: "[REDACTED]" }, { token: "[REDACTED]" }],
+    });
+  });
+
+  it("should mask scalar values in JSON that doesn't parse", () => {
+    expect(
+      redactBody('{"token": "abc\\"def", "id": 1, "pin": 1234, "note": "x', [
+        "token",
+        "pin",
+      ])
+    ).toBe('{"token": "[REDACTED]", "id": 1, "pin": "[REDACTED]", "note": "x');
+  });
+});
+
+describe("loggingMiddleware", () => {
+  it("should log the request and the response with timing", async () => {
+    const sink = vi.fn();
+    const next = vi.fn().mockResolvedValue(json({ ok: true }));
+
+    await loggingMiddleware({ sink })(request, next);
+
+    expect(sink).toHaveBeenCalledTimes(2);
+    expect(sink.mock.calls[0][0]).toEqual({
+      level: "debug",
+      message: "→ POST https://api.example.com/items",
+      method: "POST",
+      url: "https://api.example.com/items",
+    });
+    expect(sink.mock.calls[1][0]).toEqual({
+      level: "info",
+      message: expect.stringMatching(
+        /^← POST https:\/\/api\.example\.com\/items 200 \(\d+ms\)$/
+      ),
+      method: "POST",
+      url: "https://api.example.com/items",
+      status: 200,
+      duration: expect.any(Number),
+    });
+  });
+
+  it("should redact query parameters in every logged URL", async () => {
+    const sink = vi.fn();
+    const middleware = loggingMiddleware({ sink, redactQuery: ["sig"] });
+
+    await middleware(
+      {
+        url: "https://api.example.com/a?sig=s3cr3t&X-API-Key=k",
+        method: "GET",
+      },
+      async () => new Response()
+    );
+    await middleware(
+      { url: "https://api.example.com/a?sig=s3cr3t", method: "GET" },
+      async () => {
+        throw new TypeError("Failed to fetch");
+      }
+    ).catch(() => {});
+
+    expect(sink).toHaveBeenCalledTimes(4);
+    sink.mock.calls.forEach(([entry]) => {
+      expect(entry.url).not.toMatch(/s3cr3t|=k$/);
+      expect(entry.message).not.toContain("s3cr3t");
+    });
+    expect(sink.mock.calls[0][0].url).toBe(
+      "https://api.example.com/a?sig=[REDACTED]&X-API-Key=[REDACTED]"
+    );
+  });
+
+  it("should drop entries below the configured level", async () => {
+    const sink = vi.fn();
+    const middleware = loggingMiddleware({ sink, level: "warn" });
+
+    await middleware(request, async () => new Response());
+    await middleware(request, async () => new Response(null, { status: 404 }));
+
+    expect(sink).toHaveBeenCalledTimes(1);
+    expect(sink.mock.calls[0][0]).toMatchObject({ level: "warn", status: 404 });
+  });
+
+  it("should log thrown errors and rethrow them", async () => {
+    const sink = vi.fn();
+    const error = new TypeError("Failed to fetch");
+
+    await expect(
+      loggingMiddleware({ sink })(request, async () => {
+        throw error;
+      })
+    ).rejects.toBe(error);
+
+    expect(sink.mock.calls[1][0]).toMatchObject({ level: "error", error });
+  });
+
+  it("should include redacted headers when enabled", async () => {
+    const sink = vi.fn();
+    const response = new Response(null, {
+      headers: { "Set-Cookie": "session=abc", "X-Request-Id": "42" },
+    });
+
+    await loggingMiddleware({
+      sink,
+      headers: true,
+      redactHeaders: ["X-Request-Id"],
+    })(request, async () => response);
+
+    expect(sink.mock.calls[0][0].requestHeaders).toEqual({
+      authorization: "[REDACTED]",
+      "content-type": "application/json",
+    });
+    expect(sink.mock.calls[1][0].responseHeaders).toEqual({
+      "set-cookie": "[REDACTED]",
+      "x-request-id": "[REDACTED]",
+    });
+  });
+
+  it("should log redacted, truncated bodies", async () => {
+    const entries: LogEntry[] = [];
+    const response = json({ token: "abc", items: ["a".repeat(50)] });
+
+    await loggingMiddleware({
+      sink: (entry) => entries.push(entry),
+      body: true,
+      maxBodyLength: 30,
+      redactFields: ["password", "token"],
+    })(request, async () => response);
+    await vi.waitFor(() => expect(entries).toHaveLength(2));
+
+    expect(entries[0].requestBody).toBe('{"name":"widget","password":"[…');
+    expect(entries[1].responseBody).toBe('{"token":"[REDACTED]","items":…');
+  });
+
+  it("should leave the response body readable", async () => {
+    const sink = vi.fn();
+
+    const response = await loggingMiddleware({ sink, body: true })(
+      request,
+      async () => json({ ok: true })
+    );
+    await vi.waitFor(() => expect(sink).toHaveBeenCalledTimes(2));
+
+    expect(await response.json()).toEqual({ ok: true });
+    expect(sink.mock.calls[1][0].responseBody).toBe('{"ok":true}');
+  });
+
+  it("should not wait for streamed or binary bodies", async () => {
+    const sink = vi.fn();
+    const events = new Response(new ReadableStream(), {
+      headers: { "Content-Type": "text/event-stream" },
+    });
+
+    const response = await loggingMiddleware({ sink, body: true })(
+      { url: "https://api.example.com/events", method: "GET" },
+      async () => events
+    );
+    await vi.waitFor(() => expect(sink).toHaveBeenCalledTimes(2));
+
+    expect(response).toBe(events);
+    expect(sink.mock.calls[1][0].responseBody).toBeUndefined();
+  });
+
+  it("should describe stream request bodies without reading them", async () => {
+    const sink = vi.fn();
+    const stream = new ReadableStream();
+
+    await loggingMiddleware({ sink, body: true })(
+      { ...request, body: stream },
+      async () => new Response()
+    );
+
+    expect(sink.mock.calls[0][0].requestBody).toBe("[stream]");
+    expect(stream.locked).toBe(false);
+  });
+});
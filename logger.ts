@@ -0,0 +1,256 @@
+import type { Middleware } from "./types";
+import { isStreamBody } from "./body";
+import { escapeRegExp, isPlainObject, REDACTED, TEXT_TYPE } from "./utils";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogEntry = {
+  level: LogLevel;
+  message: string;
+  method: string;
+  url: string;
+  status?: number;
+  duration?: number;
+  requestHeaders?: Record<string, string>;
+  requestBody?: string;
+  responseHeaders?: Record<string, string>;
+  responseBody?: string;
+  error?: unknown;
+};
+
+export type LogSink = (entry: LogEntry) => void;
+
+export type LoggerOptions = {
+  // entries below this level are dropped
+  level?: LogLevel;
+  sink?: LogSink;
+  headers?: boolean;
+  body?: boolean;
+  maxBodyLength?: number;
+  redactHeaders?: string[];
+  redactFields?: string[];
+  // query parameters masked in logged URLs
+  redactQuery?: string[];
+};
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+const DEFAULT_REDACTED_HEADERS = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+  "x-api-key",
+];
+// apiKeyAuth's default name when it sends the key in the query
+const DEFAULT_REDACTED_QUERY = ["x-api-key"];
+// text, but possibly never-ending, so not previewed
+const STREAMING_TYPE = /event-stream|ndjson|jsonl/i;
+
+const consoleSink: LogSink = (entry) => {
+  const { level, message, ...details } = entry;
+  console[level](`[zapyt] ${message}`, details);
+};
+
+export const redactHeaders = (
+  headers: HeadersInit | undefined,
+  names: string[] = []
+): Record<string, string> => {
+  const redacted = DEFAULT_REDACTED_HEADERS.concat(
+    names.map((name) => name.toLowerCase())
+  );
+  const result: Record<string, string> = {};
+  new Headers(headers).forEach((value, name) => {
+    result[name] = redacted.includes(name) ? REDACTED : value;
+  });
+  return result;
+};
+
+// Rewrites only the matching parameters, leaving the rest of the URL
+// exactly as it will be sent.
+export const redactUrl = (url: string, names: string[] = []): string => {
+  const redacted = DEFAULT_REDACTED_QUERY.concat(
+    names.map((name) => name.toLowerCase())
+  );
+  const match = /^([^?#]*\?)([^#]*)(.*)$/.exec(url);
+  if (!match) {
+    return url;
+  }
+  const [, path, query, hash] = match;
+  const params = query.split("&").map((param) => {
+    const [name] = param.split("=");
+    let decoded = name;
+    try {
+      decoded = decodeURIComponent(name.replace(/\+/g, " "));
+    } catch {
+      // keep the raw name
+    }
+    return redacted.includes(decoded.toLowerCase())
+      ? `${name}=${REDACTED}`
+      : param;
+  });
+  return `${path}${params.join("&")}${hash}`;
+};
+
+const redactValue = (value: unknown, fields: string[]): unknown => {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, fields));
+  }
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    Object.keys(value).forEach((key) => {
+      result[key] = fields.includes(key.toLowerCase())
+        ? REDACTED
+        : redactValue(value[key], fields);
+    });
+    return result;
+  }
+  return value;
+};
+
+// JSON that can't be parsed (usually because it was truncated) still has
+// its scalar values masked.
+export const redactBody = (text: string, fields: string[] = []): string => {
+  if (!fields.length) {
+    return text;
+  }
+  const names = fields.map((field) => field.toLowerCase());
+  try {
+    return JSON.stringify(redactValue(JSON.parse(text), names));
+  } catch {
+    return fields.reduce(
+      (body, field) =>
+        body.replace(
+          new RegExp(
+            `("${escapeRegExp(
+              field
+            )}"\\s*:\\s*)("(?:[^"\\\\]|\\\\.)*"?|[^,}\\]\\s]+)`,
+            "gi"
+          ),
+          `$1"${REDACTED}"`
+        ),
+      text
+    );
+  }
+};
+
+const truncate = (text: string, max: number) =>
+  text.length > max ? `${text.slice(0, max)}…` : text;
+
+const readRequestBody = async (body: BodyInit | null | undefined) => {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+  if (isStreamBody(body)) {
+    return "[stream]";
+  }
+  return new Response(body).text();
+};
+
+// Reads at most `max` characters from a clone, so the caller's body is
+// untouched and a long-lived stream doesn't keep the preview pending.
+const readResponseBody = async (response: Response, max: number) => {
+  const contentType = response.headers.get("Content-Type") ?? "";
+  if (!TEXT_TYPE.test(contentType) || STREAMING_TYPE.test(contentType)) {
+    return undefined;
+  }
+  const body = response.clone().body;
+  if (!body) {
+    return undefined;
+  }
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return text + decoder.decode();
+      }
+      text += decoder.decode(value, { stream: true });
+      if (text.length > max) {
+        return text;
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+};
+
+export const loggingMiddleware = (options: LoggerOptions = {}): Middleware => {
+  const {
+    level = "debug",
+    sink = consoleSink,
+    maxBodyLength = 1000,
+    redactFields = [],
+  } = options;
+  const enabled = (entryLevel: LogLevel) =>
+    LEVELS.indexOf(entryLevel) >= LEVELS.indexOf(level);
+  const headers = (init: HeadersInit | undefined) =>
+    options.headers ? redactHeaders(init, options.redactHeaders) : undefined;
+  const body = (text: string | undefined) =>
+    text === undefined
+      ? undefined
+      : truncate(redactBody(text, redactFields), maxBodyLength);
+
+  return async (request, next) => {
+    const { method } = request;
+    const url = redactUrl(request.url, options.redactQuery);
+    const start = performance.now();
+    const duration = () => Math.round(performance.now() - start);
+
+    if (enabled("debug")) {
+      sink({
+        level: "debug",
+        message: `→ ${method} ${url}`,
+        method,
+        url,
+        requestHeaders: headers(request.headers),
+        requestBody: options.body
+          ? body(await readRequestBody(request.body))
+          : undefined,
+      });
+    }
+
+    let response: Response;
+    try {
+      response = await next(request);
+    } catch (error) {
+      if (enabled("error")) {
+        const elapsed = duration();
+        sink({
+          level: "error",
+          message: `✗ ${method} ${url} (${elapsed}ms)`,
+          method,
+          url,
+          duration: elapsed,
+          error,
+        });
+      }
+      throw error;
+    }
+
+    const entryLevel = response.status >= 400 ? "warn" : "info";
+    if (enabled(entryLevel)) {
+      const elapsed = duration();
+      const entry: LogEntry = {
+        level: entryLevel,
+        message: `← ${method} ${url} ${response.status} (${elapsed}ms)`,
+        method,
+        url,
+        status: response.status,
+        duration: elapsed,
+        responseHeaders: headers(response.headers),
+      };
+      if (options.body) {
+        // logged once the preview is read, without holding up the caller
+        readResponseBody(response, maxBodyLength).then(
+          (text) => sink({ ...entry, responseBody: body(text) }),
+          () => sink(entry)
+        );
+      } else {
+        sink(entry);
+      }
+    }
+    return response;
+  };
+};
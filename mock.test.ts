@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from "vitest";
+import { MockTransport, toResponse } from "./mock";
+import { UnmatchedRequestError } from "./errors";
+import type { FetchRequest } from "./types";
+
+const request = (overrides: Partial<FetchRequest> = {}): FetchRequest => ({
+  url: "https://api.example.com/users/42?expand=teams",
+  method: "GET",
+  ...overrides,
+});
+
+const send = (mock: MockTransport, req: FetchRequest, next = vi.fn()) =>
+  mock.middleware(req, next);
+
+describe("toResponse", () => {
+  it("should encode JSON bodies with a Content-Type", async () => {
+    const response = toResponse({ status: 201, body: { id: 1 } });
+
+    expect(response.status).toBe(201);
+    expect(response.headers.get("Content-Type")).toBe("application/json");
+    expect(await response.json()).toEqual({ id: 1 });
+  });
+
+  it("should keep explicit headers and allow empty bodies", async () => {
+    const response = toResponse({
+      status: 204,
+      headers: { "X-Trace": "t1" },
+    });
+
+    expect(response.headers.get("X-Trace")).toBe("t1");
+    expect(response.body).toBeNull();
+  });
+});
+
+describe("MockTransport", () => {
+  it("should match method and path params", async () => {
+    const mock = new MockTransport().get("/users/:id", ({ params }) => ({
+      body: { id: params.id },
+    }));
+
+    const response = await send(mock, request());
+
+    expect(await response.json()).toEqual({ id: "42" });
+    expect(mock.calls).toHaveLength(1);
+  });
+
+  it("should match absolute URLs, regular expressions and queries", async () => {
+    const mock = new MockTransport()
+      .on(
+        {
+          path: "https://api.example.com/users/:id",
+          query: { expand: "teams" },
+        },
+        { body: "absolute" }
+      )
+      .on({ path: /^\/users/ }, { body: "regexp" });
+
+    expect(await (await send(mock, request())).text()).toBe("absolute");
+    expect(
+      await (
+        await send(mock, request({ url: "https://api.example.com/users/1" }))
+      ).text()
+    ).toBe("regexp");
+  });
+
+  it("should match headers case-insensitively and bodies by value", async () => {
+    const mock = new MockTransport()
+      .on(
+        {
+          method: "post",
+          path: "/users",
+          headers: { Authorization: "Bearer t" },
+          body: { name: "Ada", tags: ["x"] },
+        },
+        { status: 201 }
+      )
+      .on({ path: "/users", body: (body) => body === "raw" }, { status: 202 });
+
+    const created = await send(
+      mock,
+      request({
+        url: "https://api.example.com/users",
+        method: "POST",
+        headers: { authorization: "Bearer t" },
+        body: '{"tags":["x"],"name":"Ada"}',
+      })
+    );
+    const raw = await send(
+      mock,
+      request({
+        url: "https://api.example.com/users",
+        method: "PUT",
+        body: "raw",
+      })
+    );
+
+    expect(created.status).toBe(201);
+    expect(raw.status).toBe(202);
+  });
+
+  it("should stop matching a route after its allowed number of calls", async () => {
+    const mock = new MockTransport()
+      .on({ path: "/users/:id", times: 1 }, { body: "first" })
+      .get("/users/:id", { body: "later" });
+
+    expect(await (await send(mock, request())).text()).toBe("first");
+    expect(await (await send(mock, request())).text()).toBe("later");
+  });
+
+  it("should reply with a fresh copy of a Response each time", async () => {
+    const mock = new MockTransport().get("/users/:id", new Response("same"));
+
+    expect(await (await send(mock, request())).text()).toBe("same");
+    expect(await (await send(mock, request())).text()).toBe("same");
+  });
+
+  it("should throw on unmatched requests and report them", async () => {
+    const mock = new MockTransport().post("/users", { status: 201 });
+
+    await expect(send(mock, request())).rejects.toThrow(UnmatchedRequestError);
+    expect(mock.unmatched.map(({ method }) => method)).toEqual(["GET"]);
+    expect(() => mock.assertDone()).toThrow(
+      "unmatched request GET https://api.example.com/users/42?expand=teams"
+    );
+  });
+
+  it("should pass unmatched requests through when configured", async () => {
+    const mock = new MockTransport({ passthrough: true });
+    const next = vi.fn().mockResolvedValue(new Response("real"));
+
+    const response = await send(mock, request(), next);
+
+    expect(await response.text()).toBe("real");
+    expect(next).toHaveBeenCalledWith(request());
+  });
+
+  it("should report routes that weren't called often enough", () => {
+    const mock = new MockTransport().on(
+      { method: "GET", path: "/health", times: 2 },
+      {}
+    );
+
+    expect(() => mock.assertDone()).toThrow("GET /health called 0 of 2 times");
+  });
+
+  it("should work as a fetch implementation", async () => {
+    const mock = new MockTransport().post("/echo", ({ body, headers }) => ({
+      body: { body, type: headers["content-type"] },
+    }));
+
+    const response = await mock.fetch("https://api.example.com/echo", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: '{"a":1}',
+    });
+    const fromRequest = await mock.fetch(
+      new Request("https://api.example.com/echo", {
+        method: "POST",
+        body: "plain",
+      })
+    );
+
+    expect(await response.json()).toEqual({
+      body: { a: 1 },
+      type: "application/json",
+    });
+    expect(await fromRequest.json()).toEqual({
+      body: "plain",
+      type: "text/plain;charset=UTF-8",
+    });
+  });
+
+  it("should clear routes and history on reset", async () => {
+    const mock = new MockTransport().get("/users/:id", {});
+    await send(mock, request());
+
+    mock.reset();
+
+    expect(mock.calls).toEqual([]);
+    await expect(send(mock, request())).rejects.toThrow(UnmatchedRequestError);
+  });
+});
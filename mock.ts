@@ -0,0 +1,301 @@
+import type { FetchRequest, Middleware, Next } from "./types";
+import { UnmatchedRequestError } from "./errors";
+import { isStreamBody, serializeBody } from "./body";
+import { escapeRegExp, toHeaderRecord } from "./utils";
+
+export type MockRequest = {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  params: Record<string, string>;
+  body: unknown;
+  text?: string;
+};
+
+export type MockReply = {
+  status?: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+};
+
+export type MockRoute = {
+  method?: string;
+  // a pathname or absolute URL; `:name` segments capture params
+  path: string | RegExp;
+  query?: Record<string, string | string[]>;
+  headers?: Record<string, string>;
+  // strings match the raw body, other values the parsed JSON
+  body?:
+    | ((body: unknown) => boolean)
+    | string
+    | number
+    | boolean
+    | object
+    | null;
+  times?: number;
+};
+
+export type MockHandler =
+  | MockReply
+  | Response
+  | ((
+      request: MockRequest
+    ) => MockReply | Response | Promise<MockReply | Response>);
+
+export type MockTransportOptions = {
+  // send unmatched requests on through the chain instead of throwing
+  passthrough?: boolean;
+};
+
+type Route = MockRoute & {
+  handler: MockHandler;
+  used: number;
+  pattern?: { regex: RegExp; names: string[] };
+};
+
+const compilePath = (path: string) => {
+  const names: string[] = [];
+  const source = path
+    .split("/")
+    .map((segment) => {
+      if (segment.startsWith(":")) {
+        names.push(segment.slice(1));
+        return "([^/]+)";
+      }
+      return escapeRegExp(segment);
+    })
+    .join("/");
+  return { regex: new RegExp(`^${source}/?$`), names };
+};
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) {
+    return true;
+  }
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) =>
+      isEqual(
+        (a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key]
+      )
+    )
+  );
+};
+
+const parseText = (text: string | undefined) => {
+  if (text === undefined) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+export const toResponse = (reply: MockReply | Response): Response => {
+  if (reply instanceof Response) {
+    return reply;
+  }
+  const headers = new Headers(reply.headers);
+  const { body, contentType } =
+    reply.body === undefined || reply.body === null
+      ? { body: undefined, contentType: undefined }
+      : serializeBody(reply.body);
+  if (contentType && !headers.has("Content-Type")) {
+    headers.set("Content-Type", contentType);
+  }
+  return new Response(body ?? null, {
+    status: reply.status ?? 200,
+    statusText: reply.statusText,
+    headers,
+  });
+};
+
+export class MockTransport {
+  readonly calls: MockRequest[] = [];
+  readonly unmatched: MockRequest[] = [];
+  private routes: Route[] = [];
+
+  constructor(private options: MockTransportOptions = {}) {}
+
+  on(route: MockRoute, handler: MockHandler): this {
+    this.routes.push({
+      ...route,
+      handler,
+      used: 0,
+      pattern:
+        typeof route.path === "string" ? compilePath(route.path) : undefined,
+    });
+    return this;
+  }
+
+  get(path: MockRoute["path"], handler: MockHandler): this {
+    return this.on({ method: "GET", path }, handler);
+  }
+
+  post(path: MockRoute["path"], handler: MockHandler): this {
+    return this.on({ method: "POST", path }, handler);
+  }
+
+  put(path: MockRoute["path"], handler: MockHandler): this {
+    return this.on({ method: "PUT", path }, handler);
+  }
+
+  patch(path: MockRoute["path"], handler: MockHandler): this {
+    return this.on({ method: "PATCH", path }, handler);
+  }
+
+  delete(path: MockRoute["path"], handler: MockHandler): this {
+    return this.on({ method: "DELETE", path }, handler);
+  }
+
+  private match(route: Route, request: MockRequest) {
+    if (route.times !== undefined && route.used >= route.times) {
+      return undefined;
+    }
+    if (route.method && route.method.toUpperCase() !== request.method) {
+      return undefined;
+    }
+
+    const { url } = request;
+    const target =
+      typeof route.path === "string" && route.path.includes("://")
+        ? `${url.origin}${url.pathname}`
+        : url.pathname;
+    const params: Record<string, string> = {};
+    if (route.pattern) {
+      const match = route.pattern.regex.exec(target);
+      if (!match) {
+        return undefined;
+      }
+      route.pattern.names.forEach((name, index) => {
+        params[name] = decodeURIComponent(match[index + 1]);
+      });
+    } else if (!(route.path as RegExp).test(target)) {
+      return undefined;
+    }
+
+    const query = route.query ?? {};
+    const queryMatches = Object.keys(query).every((key) =>
+      isEqual(url.searchParams.getAll(key), ([] as string[]).concat(query[key]))
+    );
+    const headers = route.headers ?? {};
+    const headersMatch = Object.keys(headers).every(
+      (name) => request.headers[name.toLowerCase()] === headers[name]
+    );
+    const bodyMatches =
+      !("body" in route) ||
+      (typeof route.body === "function"
+        ? route.body(request.body)
+        : typeof route.body === "string"
+        ? route.body === request.text
+        : isEqual(route.body, request.body));
+
+    return queryMatches && headersMatch && bodyMatches ? params : undefined;
+  }
+
+  private async handle(request: FetchRequest, next?: Next): Promise<Response> {
+    request.signal?.throwIfAborted();
+    const text =
+      request.body === undefined ||
+      request.body === null ||
+      isStreamBody(request.body)
+        ? undefined
+        : await new Response(request.body).text();
+    const mockRequest: MockRequest = {
+      method: request.method.toUpperCase(),
+      url: new URL(request.url),
+      headers: toHeaderRecord(request.headers),
+      params: {},
+      body: parseText(text),
+      text,
+    };
+    this.calls.push(mockRequest);
+
+    for (const route of this.routes) {
+      const params = this.match(route, mockRequest);
+      if (params) {
+        route.used++;
+        const { handler } = route;
+        return toResponse(
+          typeof handler === "function"
+            ? await handler({ ...mockRequest, params })
+            : handler instanceof Response
+            ? handler.clone()
+            : handler
+        );
+      }
+    }
+
+    this.unmatched.push(mockRequest);
+    if (next && this.options.passthrough) {
+      return next(request);
+    }
+    throw new UnmatchedRequestError(
+      `No mock matched ${mockRequest.method} ${request.url}`,
+      { method: mockRequest.method, url: request.url }
+    );
+  }
+
+  readonly middleware: Middleware = (request, next) =>
+    this.handle(request, next);
+
+  readonly fetch = async (
+    input: RequestInfo | URL,
+    init: RequestInit = {}
+  ): Promise<Response> => {
+    if (input instanceof Request) {
+      return this.handle({
+        url: input.url,
+        method: init.method ?? input.method,
+        headers: toHeaderRecord(init.headers ?? input.headers),
+        body: init.body ?? (input.body ? await input.text() : undefined),
+        signal: init.signal ?? input.signal,
+      });
+    }
+    return this.handle({
+      url: String(input),
+      method: init.method ?? "GET",
+      headers: toHeaderRecord(init.headers),
+      body: init.body,
+      signal: init.signal ?? undefined,
+    });
+  };
+
+  assertDone(): void {
+    const pending = this.routes.filter(
+      (route) => route.times !== undefined && route.used < route.times
+    );
+    const problems = [
+      ...this.unmatched.map(
+        ({ method, url }) => `unmatched request ${method} ${url}`
+      ),
+      ...pending.map(
+        ({ method = "*", path, used, times }) =>
+          `${method} ${path} called ${used} of ${times} times`
+      ),
+    ];
+    if (problems.length) {
+      throw new Error(`Mock transport not done:\n  ${problems.join("\n  ")}`);
+    }
+  }
+
+  reset(): void {
+    this.routes = [];
+    this.calls.length = 0;
+    this.unmatched.length = 0;
+  }
+}
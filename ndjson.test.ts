@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import { NdjsonStream } from "./ndjson";
+import { dateJsonCodec } from "./codec";
+import { ValidationError } from "./errors";
+
+const streamOf = (...chunks: string[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) =>
+        controller.enqueue(new TextEncoder().encode(chunk))
+      );
+      controller.close();
+    },
+  });
+
+const collect = async <T>(stream: AsyncIterable<T>) => {
+  const items: T[] = [];
+  for await (const item of stream) {
+    items.push(item);
+  }
+  return items;
+};
+
+describe("NdjsonStream", () => {
+  it("should parse one JSON value per line", async () => {
+    const stream = new NdjsonStream(streamOf('{"a":1}\n{"a":2}\n[3]\n'));
+    expect(await collect(stream)).toEqual([{ a: 1 }, { a: 2 }, [3]]);
+  });
+
+  it("should handle lines split across chunks", async () => {
+    const stream = new NdjsonStream(
+      streamOf('{"na', 'me":"x"}\n{"name"', ':"y"}\n')
+    );
+    expect(await collect(stream)).toEqual([{ name: "x" }, { name: "y" }]);
+  });
+
+  it("should handle multi-byte characters split across chunks", async () => {
+    const bytes = new TextEncoder().encode('"héllo"\n');
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 3));
+        controller.enqueue(bytes.slice(3));
+        controller.close();
+      },
+    });
+    expect(await collect(new NdjsonStream(body))).toEqual(["héllo"]);
+  });
+
+  it("should skip blank lines, accept CRLF and parse a final unterminated line", async () => {
+    const stream = new NdjsonStream(streamOf("1\r\n\n  \n2\r\n3"));
+    expect(await collect(stream)).toEqual([1, 2, 3]);
+  });
+
+  it("should yield nothing for an empty body", async () => {
+    expect(await collect(new NdjsonStream(null))).toEqual([]);
+  });
+
+  it("should throw on malformed lines", async () => {
+    const stream = new NdjsonStream(streamOf('{"ok":true}\n{oops\n'));
+    await expect(collect(stream)).rejects.toThrow(SyntaxError);
+  });
+
+  it("should decode lines with the given codec", async () => {
+    const stream = new NdjsonStream(
+      streamOf('{"at":"2024-01-02T03:04:05.000Z"}\n'),
+      { codec: dateJsonCodec }
+    );
+    const [item] = await collect(stream);
+    expect((item as { at: Date }).at).toBeInstanceOf(Date);
+  });
+
+  it("should validate each item against the schema", async () => {
+    const schema = (value: unknown) => {
+      if (typeof value !== "number") {
+        throw new Error("Expected a number");
+      }
+      return value * 10;
+    };
+    const stream = new NdjsonStream(streamOf("1\n2\n")).withSchema(schema, {
+      method: "GET",
+      url: "https://api.example.com/items",
+    });
+    expect(await collect(stream)).toEqual([10, 20]);
+
+    const invalid = new NdjsonStream(streamOf('1\n"two"\n')).withSchema(schema);
+    await expect(collect(invalid)).rejects.toThrow(ValidationError);
+  });
+
+  it("should only read from the body as items are consumed", async () => {
+    let pulls = 0;
+    const body = new ReadableStream<Uint8Array>(
+      {
+        pull(controller) {
+          pulls++;
+          controller.enqueue(new TextEncoder().encode(`${pulls}\n`));
+        },
+      },
+      { highWaterMark: 0 }
+    );
+
+    const iterator = new NdjsonStream<number>(body)[Symbol.asyncIterator]();
+    expect((await iterator.next()).value).toBe(1);
+    expect((await iterator.next()).value).toBe(2);
+    await iterator.return?.();
+
+    expect(pulls).toBe(2);
+  });
+
+  it("should cancel the body when the consumer stops early", async () => {
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode("1\n"));
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+
+    for await (const item of new NdjsonStream(body)) {
+      expect(item).toBe(1);
+      break;
+    }
+
+    expect(cancelled).toBe(true);
+  });
+});
@@ -0,0 +1,78 @@
+import type { Codec, Schema } from "./types";
+import { validate, ValidationContext } from "./validate";
+
+export type NdjsonStreamOptions<T> = ValidationContext & {
+  codec?: Codec;
+  schema?: Schema<T>;
+};
+
+export class NdjsonStream<T = unknown> implements AsyncIterable<T> {
+  private reader?: ReadableStreamDefaultReader<Uint8Array>;
+
+  constructor(
+    private body: ReadableStream<Uint8Array> | null,
+    private options: NdjsonStreamOptions<T> = {}
+  ) {}
+
+  async cancel(reason?: unknown): Promise<void> {
+    await (this.reader ?? this.body)?.cancel(reason).catch(() => {});
+  }
+
+  withSchema<U>(
+    schema: Schema<U>,
+    context: ValidationContext = {}
+  ): NdjsonStream<U> {
+    return new NdjsonStream<U>(this.body, {
+      codec: this.options.codec,
+      ...context,
+      schema,
+    });
+  }
+
+  private async parse(line: string): Promise<T> {
+    const { codec, schema, method, url } = this.options;
+    const value = codec ? codec.decode(line) : JSON.parse(line);
+    return schema ? validate(schema, value, { method, url }) : value;
+  }
+
+  // Items are read from the body only as fast as the consumer pulls them,
+  // so a slow consumer applies backpressure all the way to the socket.
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    if (!this.body) {
+      return;
+    }
+    const reader = this.body.getReader();
+    this.reader = reader;
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    let finished = false;
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        buffer += done
+          ? decoder.decode()
+          : decoder.decode(value, { stream: true });
+
+        const lines = buffer.split("\n");
+        buffer = done ? "" : lines.pop() ?? "";
+        for (const line of lines) {
+          if (line.trim()) {
+            yield await this.parse(line);
+          }
+        }
+
+        if (done) {
+          finished = true;
+          return;
+        }
+      }
+    } finally {
+      if (!finished) {
+        // the consumer stopped early, so the rest of the body isn't needed
+        await reader.cancel().catch(() => {});
+      }
+      reader.releaseLock();
+    }
+  }
+}
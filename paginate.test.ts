@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import {
+  cursorPagination,
+  getItems,
+  linkPagination,
+  offsetPagination,
+  parseLinkHeader,
+} from "./paginate";
+import type { FetchResponse, PageContext } from "./types";
+
+const context = <P, I>(
+  overrides: Partial<PageContext<P, I>>
+): PageContext<P, I> => ({
+  data: undefined as P,
+  items: [],
+  request: { url: "/items" },
+  response: {
+    data: async () => undefined as P,
+    status: 200,
+    statusText: "OK",
+    headers: new Headers(),
+  } as FetchResponse<P>,
+  url: "https://api.example.com/items",
+  page: 1,
+  ...overrides,
+});
+
+describe("parseLinkHeader", () => {
+  it("should map each rel to its URL", () => {
+    expect(
+      parseLinkHeader(
+        '<https://api.example.com/items?page=2>; rel="next", <https://api.example.com/items?page=9>; rel="last"'
+      )
+    ).toEqual({
+      next: "https://api.example.com/items?page=2",
+      last: "https://api.example.com/items?page=9",
+    });
+  });
+
+  it("should handle unquoted, multiple and mixed-case rels", () => {
+    expect(
+      parseLinkHeader(
+        '</a?x=1,2>; title="a, b"; REL=Next, </b>; rel="prev first"'
+      )
+    ).toEqual({ next: "/a?x=1,2", prev: "/b", first: "/b" });
+  });
+
+  it("should return an empty map without a header", () => {
+    expect(parseLinkHeader(null)).toEqual({});
+    expect(parseLinkHeader("<https://example.com>")).toEqual({});
+  });
+});
+
+describe("getItems", () => {
+  it("should default to array pages", () => {
+    expect(getItems({}, [1, 2])).toEqual([1, 2]);
+    expect(getItems({}, { results: [1] })).toEqual([]);
+  });
+});
+
+describe("linkPagination", () => {
+  it("should follow rel=next relative to the page URL", async () => {
+    const strategy = linkPagination();
+    const headers = new Headers({ Link: '</items?page=2>; rel="next"' });
+
+    expect(
+      await strategy.next(
+        context({
+          response: { headers } as FetchResponse<unknown>,
+        })
+      )
+    ).toEqual({ url: "https://api.example.com/items?page=2" });
+    expect(await strategy.next(context({}))).toBeUndefined();
+  });
+});
+
+describe("cursorPagination", () => {
+  type Body = { data: number[]; next?: string | null };
+  const strategy = cursorPagination<Body, number>({
+    items: (body) => body.data,
+    cursor: (body) => body.next,
+    param: "after",
+  });
+
+  it("should pass the cursor in the query", async () => {
+    expect(
+      await strategy.next(
+        context<Body, number>({
+          data: { data: [1], next: "abc" },
+          request: { url: "/items", query: { size: 10 } },
+        })
+      )
+    ).toEqual({ url: "/items", query: { size: 10, after: "abc" } });
+  });
+
+  it("should stop without a cursor", async () => {
+    expect(
+      await strategy.next(
+        context<Body, number>({ data: { data: [], next: null } })
+      )
+    ).toBeUndefined();
+  });
+});
+
+describe("offsetPagination", () => {
+  const strategy = offsetPagination({ limit: 2 });
+
+  it("should start at offset zero", () => {
+    expect(strategy.start?.({ url: "/items", query: { q: "x" } })).toEqual({
+      url: "/items",
+      query: { q: "x", offset: 0, limit: 2 },
+    });
+  });
+
+  it("should advance by the page size until a short page", async () => {
+    const request = { url: "/items", query: { offset: 4, limit: 2 } };
+
+    expect(await strategy.next(context({ items: [1, 2], request }))).toEqual({
+      url: "/items",
+      query: { offset: 6, limit: 2 },
+    });
+    expect(
+      await strategy.next(context({ items: [1], request }))
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,93 @@
+import type { PageRequest, PaginationStrategy } from "./types";
+
+export type CursorPaginationOptions<P, I> = {
+  items?: (data: P) => I[];
+  cursor: (data: P) => string | number | null | undefined;
+  param?: string;
+};
+
+export type OffsetPaginationOptions<P, I> = {
+  items?: (data: P) => I[];
+  limit: number;
+  offsetParam?: string;
+  limitParam?: string;
+};
+
+// RFC 8288: `<url>; rel="next", <url>; rel="prev last"`
+export const parseLinkHeader = (
+  value: string | null
+): Record<string, string> => {
+  const links: Record<string, string> = {};
+  value?.split(/,(?=\s*<)/).forEach((link) => {
+    const match = /^\s*<([^>]*)>(.*)$/.exec(link);
+    const rel =
+      match && /;\s*rel\s*=\s*(?:"([^"]*)"|([^\s;]+))/i.exec(match[2]);
+    if (match && rel) {
+      (rel[1] ?? rel[2]).split(/\s+/).forEach((name) => {
+        if (name && !(name.toLowerCase() in links)) {
+          links[name.toLowerCase()] = match[1];
+        }
+      });
+    }
+  });
+  return links;
+};
+
+export const getItems = <P, I>(
+  strategy: Pick<PaginationStrategy<P, I>, "items">,
+  data: P
+): I[] => {
+  if (strategy.items) {
+    return strategy.items(data);
+  }
+  return Array.isArray(data) ? data : [];
+};
+
+export const linkPagination = <P, I = unknown>(
+  items?: (data: P) => I[]
+): PaginationStrategy<P, I> => ({
+  items,
+  next: ({ response, url }) => {
+    const next = parseLinkHeader(response.headers.get("Link")).next;
+    // the link already carries the full query for the next page
+    return next ? { url: new URL(next, url).toString() } : undefined;
+  },
+});
+
+export const cursorPagination = <P, I = unknown>({
+  items,
+  cursor,
+  param = "cursor",
+}: CursorPaginationOptions<P, I>): PaginationStrategy<P, I> => ({
+  items,
+  next: ({ data, request }) => {
+    const value = cursor(data);
+    return value === null || value === undefined || value === ""
+      ? undefined
+      : { ...request, query: { ...request.query, [param]: value } };
+  },
+});
+
+export const offsetPagination = <P, I = unknown>({
+  items,
+  limit,
+  offsetParam = "offset",
+  limitParam = "limit",
+}: OffsetPaginationOptions<P, I>): PaginationStrategy<P, I> => {
+  const withOffset = (request: PageRequest, offset: number): PageRequest => ({
+    ...request,
+    query: { ...request.query, [offsetParam]: offset, [limitParam]: limit },
+  });
+
+  return {
+    items,
+    start: (request) => withOffset(request, 0),
+    next: ({ items: page, request }) =>
+      page.length < limit
+        ? undefined
+        : withOffset(
+            request,
+            Number(request.query?.[offsetParam]) + page.length
+          ),
+  };
+};
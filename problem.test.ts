@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { parseProblemDetails, readProblemDetails } from "./problem";
+
+const problem = (body: unknown, contentType = "application/problem+json") =>
+  new Response(JSON.stringify(body), {
+    status: 422,
+    headers: { "Content-Type": contentType },
+  });
+
+describe("parseProblemDetails", () => {
+  it("should parse problem+json bodies with extension members", async () => {
+    const result = await parseProblemDetails(
+      problem({
+        type: "https://example.com/probs/validation",
+        title: "Validation failed",
+        status: 422,
+        detail: "Two fields are invalid",
+        instance: "/orders/1",
+        errors: [{ pointer: "#/name", detail: "is required" }],
+      })
+    );
+
+    expect(result).toEqual({
+      type: "https://example.com/probs/validation",
+      title: "Validation failed",
+      status: 422,
+      detail: "Two fields are invalid",
+      instance: "/orders/1",
+      errors: [{ pointer: "#/name", detail: "is required" }],
+    });
+  });
+
+  it("should default the type and drop members with the wrong type", async () => {
+    const result = await parseProblemDetails(
+      problem({ title: 42, status: "422", detail: "Out of stock" })
+    );
+
+    expect(result).toEqual({ type: "about:blank", detail: "Out of stock" });
+  });
+
+  it("should accept content type parameters", async () => {
+    const result = await parseProblemDetails(
+      problem({ title: "Gone" }, "application/problem+json; charset=utf-8")
+    );
+
+    expect(result?.title).toBe("Gone");
+  });
+
+  it("should ignore other content types", async () => {
+    expect(
+      await parseProblemDetails(problem({ title: "x" }, "application/json"))
+    ).toBeUndefined();
+  });
+
+  it("should ignore bodies that aren't JSON objects", async () => {
+    expect(await parseProblemDetails(problem(["x"]))).toBeUndefined();
+  });
+});
+
+describe("readProblemDetails", () => {
+  it("should leave the original body readable", async () => {
+    const response = problem({ title: "Conflict" });
+
+    expect(await readProblemDetails(response)).toMatchObject({
+      title: "Conflict",
+    });
+    expect(await response.json()).toEqual({ title: "Conflict" });
+  });
+
+  it("should use a custom parser for other envelopes", async () => {
+    const response = new Response(
+      JSON.stringify({ error: { code: "E_LIMIT", message: "Too many" } }),
+      { headers: { "Content-Type": "application/json" } }
+    );
+
+    const result = await readProblemDetails(response, async (res) => {
+      const { error } = await res.json();
+      return { type: "about:blank", title: error.code, detail: error.message };
+    });
+
+    expect(result).toEqual({
+      type: "about:blank",
+      title: "E_LIMIT",
+      detail: "Too many",
+    });
+  });
+
+  it("should return undefined when the body can't be parsed", async () => {
+    const response = new Response("{oops", {
+      headers: { "Content-Type": "application/problem+json" },
+    });
+
+    expect(await readProblemDetails(response)).toBeUndefined();
+    expect(await readProblemDetails(response, () => null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,51 @@
+import type { ProblemDetails, ProblemParser } from "./types";
+import { isPlainObject, parseMediaType } from "./utils";
+
+const STRING_MEMBERS = ["title", "detail", "instance"];
+
+// RFC 9457: a member with the wrong type is ignored, and a missing type
+// means "about:blank". Extension members are kept as-is.
+const toProblemDetails = (value: unknown): ProblemDetails | undefined => {
+  if (!isPlainObject(value)) {
+    return undefined;
+  }
+  const problem: ProblemDetails = {
+    ...value,
+    type: typeof value.type === "string" ? value.type : "about:blank",
+  };
+  STRING_MEMBERS.forEach((member) => {
+    if (member in problem && typeof problem[member] !== "string") {
+      delete problem[member];
+    }
+  });
+  if ("status" in problem && typeof problem.status !== "number") {
+    delete problem.status;
+  }
+  return problem;
+};
+
+export const parseProblemDetails = async (
+  response: Response
+): Promise<ProblemDetails | undefined> => {
+  const mediaType = parseMediaType(response.headers.get("Content-Type"));
+  if (
+    mediaType?.type !== "application" ||
+    mediaType.subtype !== "problem+json"
+  ) {
+    return undefined;
+  }
+  return toProblemDetails(await response.json());
+};
+
+// Reads a clone, so HttpError#body() still sees the original body. A body
+// that fails to parse shouldn't replace the HTTP error being reported.
+export const readProblemDetails = async (
+  response: Response,
+  parser: ProblemParser = parseProblemDetails
+): Promise<ProblemDetails | undefined> => {
+  try {
+    return (await parser(response.clone())) ?? undefined;
+  } catch {
+    return undefined;
+  }
+};
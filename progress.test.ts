@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from "vitest";
+import { getDownloadTotal, toUploadBody, trackProgress } from "./progress";
+
+const streamOf = (...chunks: string[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) =>
+        controller.enqueue(new TextEncoder().encode(chunk))
+      );
+      controller.close();
+    },
+  });
+
+describe("trackProgress", () => {
+  it("should report loaded bytes, total and rate per chunk", async () => {
+    const onProgress = vi.fn();
+    const times = [1000, 1500, 2000];
+    const tracked = trackProgress(
+      streamOf("abcd", "efgh"),
+      8,
+      onProgress,
+      () => times.shift() as number
+    );
+
+    expect(await new Response(tracked).text()).toBe("abcdefgh");
+    expect(onProgress.mock.calls).toEqual([
+      [{ loaded: 4, total: 8, rate: 8 }],
+      [{ loaded: 8, total: 8, rate: 8 }],
+    ]);
+  });
+
+  it("should report progress without a known total", async () => {
+    const onProgress = vi.fn();
+    await new Response(
+      trackProgress(streamOf("abc"), undefined, onProgress, () => 0)
+    ).text();
+
+    expect(onProgress).toHaveBeenCalledWith({
+      loaded: 3,
+      total: undefined,
+      rate: 0,
+    });
+  });
+
+  it("should forward cancellation to the source", async () => {
+    const cancel = vi.fn();
+    const source = new ReadableStream<Uint8Array>({ cancel });
+
+    await trackProgress(source, undefined, vi.fn()).cancel("stop");
+
+    expect(cancel).toHaveBeenCalledWith("stop");
+  });
+});
+
+describe("getDownloadTotal", () => {
+  it("should read Content-Length", () => {
+    expect(getDownloadTotal(new Headers({ "Content-Length": "42" }))).toBe(42);
+  });
+
+  it("should be unknown without a valid Content-Length", () => {
+    expect(getDownloadTotal(new Headers())).toBeUndefined();
+    expect(
+      getDownloadTotal(new Headers({ "Content-Length": "lots" }))
+    ).toBeUndefined();
+  });
+
+  it("should be unknown for encoded bodies", () => {
+    const headers = new Headers({
+      "Content-Length": "42",
+      "Content-Encoding": "gzip",
+    });
+    expect(getDownloadTotal(headers)).toBeUndefined();
+  });
+});
+
+describe("toUploadBody", () => {
+  it("should stream buffered bodies with their size", async () => {
+    const upload = await toUploadBody("héllo");
+
+    expect(upload.total).toBe(6);
+    expect(await new Response(upload.body).text()).toBe("héllo");
+  });
+
+  it("should provide the multipart Content-Type for FormData", async () => {
+    const form = new FormData();
+    form.append("field", "value");
+
+    const upload = await toUploadBody(form);
+
+    expect(upload.contentType).toMatch(/^multipart\/form-data; boundary=/);
+    expect(upload.total).toBeGreaterThan(0);
+  });
+
+  it("should take the total of streams from Content-Length", async () => {
+    const body = streamOf("abc");
+
+    expect(await toUploadBody(body, { "content-length": "3" })).toEqual({
+      body,
+      total: 3,
+    });
+    expect((await toUploadBody(streamOf("abc"))).total).toBeUndefined();
+  });
+});
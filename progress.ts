@@ -0,0 +1,79 @@
+import type { ProgressCallback } from "./types";
+import { isStreamBody } from "./body";
+import { getHeader } from "./utils";
+
+export type UploadBody = {
+  body: ReadableStream<Uint8Array>;
+  total?: number;
+  contentType?: string;
+};
+
+const contentLength = (value: string | null | undefined) => {
+  const length = value ? Number(value) : NaN;
+  return Number.isInteger(length) && length >= 0 ? length : undefined;
+};
+
+export const trackProgress = (
+  stream: ReadableStream<Uint8Array>,
+  total: number | undefined,
+  onProgress: ProgressCallback,
+  now: () => number = Date.now
+): ReadableStream<Uint8Array> => {
+  const reader = stream.getReader();
+  const start = now();
+  let loaded = 0;
+
+  return new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          return;
+        }
+        loaded += value.byteLength;
+        const elapsed = now() - start;
+        onProgress({
+          loaded,
+          total,
+          rate: elapsed > 0 ? (loaded * 1000) / elapsed : 0,
+        });
+        controller.enqueue(value);
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    },
+    // pull only when the consumer reads, so progress tracks actual transfer
+    { highWaterMark: 0 }
+  );
+};
+
+// Content-Length counts the encoded bytes, but fetch hands us decoded ones.
+export const getDownloadTotal = (headers: Headers): number | undefined => {
+  const encoding = headers.get("Content-Encoding");
+  return encoding && encoding !== "identity"
+    ? undefined
+    : contentLength(headers.get("Content-Length"));
+};
+
+export const toUploadBody = async (
+  body: BodyInit,
+  headers?: Record<string, any>
+): Promise<UploadBody> => {
+  if (isStreamBody(body)) {
+    return {
+      body,
+      total: contentLength(getHeader(headers, "Content-Length")),
+    };
+  }
+  // Let Response encode the body so FormData gets the same multipart
+  // boundary and Content-Type that fetch would have generated.
+  const encoded = new Response(body);
+  const blob = await encoded.blob();
+  return {
+    body: blob.stream(),
+    total: blob.size,
+    contentType: encoded.headers.get("Content-Type") ?? undefined,
+  };
+};
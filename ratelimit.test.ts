@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { RateLimiter } from "./ratelimit";
+import { RateLimitError } from "./errors";
+import type { FetchRequest } from "./types";
+
+const request = (url = "https://api.example.com/items"): FetchRequest => ({
+  url,
+  method: "GET",
+});
+
+const deferred = () => {
+  let resolve: (response: Response) => void = () => {};
+  const promise = new Promise<Response>((done) => (resolve = done));
+  return { promise, resolve };
+};
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should cap concurrent requests", async () => {
+    const limiter = new RateLimiter({ concurrency: 2 });
+    const pending = [deferred(), deferred(), deferred()];
+    const send = vi.fn();
+    pending.forEach(({ promise }) => send.mockReturnValueOnce(promise));
+
+    const results = pending.map(() => limiter.schedule(request(), 0, send));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(send).toHaveBeenCalledTimes(2);
+
+    pending[0].resolve(new Response());
+    await vi.advanceTimersByTimeAsync(0);
+    expect(send).toHaveBeenCalledTimes(3);
+
+    pending.slice(1).forEach(({ resolve }) => resolve(new Response()));
+    await Promise.all(results);
+  });
+
+  it("should space requests with a token bucket", async () => {
+    const limiter = new RateLimiter({ limit: 2, interval: 1000 });
+    const send = vi.fn(async () => new Response());
+
+    const results = [1, 2, 3, 4].map(() =>
+      limiter.schedule(request(), 0, send)
+    );
+    await vi.advanceTimersByTimeAsync(0);
+    expect(send).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(send).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(send).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(send).toHaveBeenCalledTimes(4);
+    await Promise.all(results);
+  });
+
+  it("should send queued requests by priority", async () => {
+    const limiter = new RateLimiter({ concurrency: 1 });
+    const order: string[] = [];
+    const first = deferred();
+    const send = (name: string) => () => {
+      order.push(name);
+      return name === "first" ? first.promise : Promise.resolve(new Response());
+    };
+
+    const results = [
+      limiter.schedule(request(), 0, send("first")),
+      limiter.schedule(request(), 0, send("low")),
+      limiter.schedule(request(), 5, send("high")),
+      limiter.schedule(request(), 0, send("low again")),
+    ];
+    first.resolve(new Response());
+    await Promise.all(results);
+
+    expect(order).toEqual(["first", "high", "low", "low again"]);
+  });
+
+  it("should reject requests beyond the queue limit", async () => {
+    const limiter = new RateLimiter({ concurrency: 1, maxQueue: 1 });
+    const first = deferred();
+
+    const running = limiter.schedule(request(), 0, () => first.promise);
+    const queued = limiter.schedule(request(), 0, async () => new Response());
+    const rejected = limiter.schedule(request(), 0, async () => new Response());
+
+    await expect(rejected).rejects.toThrow(RateLimitError);
+    first.resolve(new Response());
+    await Promise.all([running, queued]);
+  });
+
+  it("should drop aborted requests from the queue", async () => {
+    const limiter = new RateLimiter({ concurrency: 1 });
+    const first = deferred();
+    const controller = new AbortController();
+    const send = vi.fn(async () => new Response());
+
+    const running = limiter.schedule(request(), 0, () => first.promise);
+    const aborted = limiter.schedule(
+      { ...request(), signal: controller.signal },
+      0,
+      send
+    );
+    controller.abort("cancelled");
+
+    await expect(aborted).rejects.toBe("cancelled");
+    first.resolve(new Response());
+    await running;
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("should limit each host separately when scoped per host", async () => {
+    const limiter = new RateLimiter({ concurrency: 1, scope: "host" });
+    const first = deferred();
+    const send = vi.fn(async () => new Response());
+
+    const running = limiter.schedule(request(), 0, () => first.promise);
+    await limiter.schedule(request("https://other.example.com/"), 0, send);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    first.resolve(new Response());
+    await running;
+  });
+
+  it("should pause until the reset when the server reports no quota left", async () => {
+    const limiter = new RateLimiter({ concurrency: 5 });
+    const send = vi.fn(async () => new Response());
+
+    await limiter.schedule(
+      request(),
+      0,
+      async () =>
+        new Response(null, {
+          headers: { "X-RateLimit-Remaining": "0", "RateLimit-Reset": "2" },
+        })
+    );
+    const next = limiter.schedule(request(), 0, send);
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(send).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    await next;
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("should accept epoch reset times and ignore headers when not adaptive", async () => {
+    vi.setSystemTime(Date.UTC(2024, 0, 1));
+    const reset = String(Date.UTC(2024, 0, 1) / 1000 + 3);
+    const headers = {
+      "X-RateLimit-Remaining": "0",
+      "X-RateLimit-Reset": reset,
+    };
+    const send = vi.fn(async () => new Response());
+
+    const fixed = new RateLimiter({ adaptive: false });
+    await fixed.schedule(
+      request(),
+      0,
+      async () => new Response(null, { headers })
+    );
+    await fixed.schedule(request(), 0, send);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    const adaptive = new RateLimiter();
+    await adaptive.schedule(
+      request(),
+      0,
+      async () => new Response(null, { headers })
+    );
+    const next = adaptive.schedule(request(), 0, send);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(send).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1000);
+    await next;
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("RateLimiter timers", () => {
+  it("should keep the process alive while a request waits for a token", async () => {
+    const timeout = vi.spyOn(globalThis, "setTimeout");
+    const limiter = new RateLimiter({ limit: 1, interval: 20 });
+    const send = vi.fn(async () => new Response());
+
+    await limiter.schedule(request(), 0, send);
+    const waiting = limiter.schedule(request(), 0, send);
+    const { results } = timeout.mock;
+    const timer: { hasRef(): boolean } = results[results.length - 1].value;
+
+    expect(timer.hasRef()).toBe(true);
+    await waiting;
+    expect(send).toHaveBeenCalledTimes(2);
+    timeout.mockRestore();
+  });
+});
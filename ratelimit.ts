@@ -0,0 +1,194 @@
+import type { FetchRequest, RateLimitOptions } from "./types";
+import { RateLimitError } from "./errors";
+
+type Waiter = {
+  priority: number;
+  resolve: () => void;
+  reject: (reason: unknown) => void;
+  cleanup: () => void;
+};
+
+const headerNumber = (headers: Headers, ...names: string[]) => {
+  for (const name of names) {
+    const value = headers.get(name);
+    if (value !== null && value.trim() !== "" && !Number.isNaN(+value)) {
+      return Number(value);
+    }
+  }
+  return undefined;
+};
+
+class Bucket {
+  private active = 0;
+  private tokens: number;
+  private refilledAt: number;
+  private blockedUntil = 0;
+  private queue: Waiter[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(private options: RateLimitOptions, private now: () => number) {
+    this.tokens = options.limit ?? Infinity;
+    this.refilledAt = now();
+  }
+
+  private refill(now: number) {
+    const { limit, interval = 1000 } = this.options;
+    if (limit !== undefined) {
+      this.tokens = Math.min(
+        limit,
+        this.tokens + ((now - this.refilledAt) * limit) / interval
+      );
+    }
+    this.refilledAt = now;
+  }
+
+  // How long until the next request may start.
+  private delay(now: number) {
+    if (now < this.blockedUntil) {
+      return this.blockedUntil - now;
+    }
+    const { limit = Infinity, interval = 1000 } = this.options;
+    return this.tokens >= 1
+      ? 0
+      : Math.ceil(((1 - this.tokens) * interval) / limit);
+  }
+
+  private drain() {
+    const concurrency = this.options.concurrency ?? Infinity;
+    while (this.queue.length && this.active < concurrency) {
+      const now = this.now();
+      this.refill(now);
+      const delay = this.delay(now);
+      if (delay > 0) {
+        this.wake(delay);
+        return;
+      }
+      this.tokens--;
+      this.active++;
+      const waiter = this.queue.shift() as Waiter;
+      waiter.cleanup();
+      waiter.resolve();
+    }
+  }
+
+  private wake(delay: number) {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, delay);
+  }
+
+  private remove(waiter: Waiter) {
+    const index = this.queue.indexOf(waiter);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+    }
+    return index !== -1;
+  }
+
+  acquire(priority: number, { method, url, signal }: FetchRequest) {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => {
+        this.remove(waiter);
+        reject(signal?.reason);
+      };
+      const waiter: Waiter = {
+        priority,
+        resolve,
+        reject,
+        cleanup: () => signal?.removeEventListener("abort", onAbort),
+      };
+
+      // higher priority first, first-come first-served within a priority
+      const index = this.queue.findIndex(
+        (queued) => queued.priority < priority
+      );
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, waiter);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.drain();
+
+      const { maxQueue = Infinity } = this.options;
+      if (this.queue.length > maxQueue && this.remove(waiter)) {
+        waiter.cleanup();
+        reject(
+          new RateLimitError(`Rate limit queue is full: ${method} ${url}`, {
+            method,
+            url,
+          })
+        );
+      }
+    });
+  }
+
+  release() {
+    this.active--;
+    this.drain();
+  }
+
+  update(headers: Headers) {
+    const now = this.now();
+    const remaining = headerNumber(
+      headers,
+      "X-RateLimit-Remaining",
+      "RateLimit-Remaining"
+    );
+    const reset = headerNumber(headers, "RateLimit-Reset", "X-RateLimit-Reset");
+    if (remaining === undefined) {
+      return;
+    }
+
+    if (this.options.limit !== undefined) {
+      this.refill(now);
+      this.tokens = Math.min(this.tokens, remaining);
+    }
+    if (remaining <= 0 && reset !== undefined) {
+      // RateLimit-Reset is delta seconds; some APIs send an epoch instead
+      const until = reset > 1e9 ? reset * 1000 : now + reset * 1000;
+      this.blockedUntil = Math.max(this.blockedUntil, until);
+    }
+  }
+}
+
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(
+    private options: RateLimitOptions = {},
+    private now: () => number = Date.now
+  ) {}
+
+  private bucket(url: string) {
+    const key = this.options.scope === "host" ? new URL(url).host : "";
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new Bucket(this.options, this.now);
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  // The slot is held until response headers arrive, so long-lived
+  // streams don't starve the queue.
+  async schedule(
+    request: FetchRequest,
+    priority: number,
+    send: () => Promise<Response>
+  ): Promise<Response> {
+    const bucket = this.bucket(request.url);
+    await bucket.acquire(priority, request);
+    try {
+      const response = await send();
+      if (this.options.adaptive !== false) {
+        bucket.update(response.headers);
+      }
+      return response;
+    } finally {
+      bucket.release();
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  DEFAULT_RETRY_POLICY,
+  getBackoffDelay,
+  getRetryDelay,
+  parseRetryAfter,
+  resolveRetryPolicy,
+} from "./retry";
+import { NetworkError } from "./errors";
+
+const request = { url: "https://api.example.com/users", method: "GET" };
+const policy = { ...DEFAULT_RETRY_POLICY, jitter: false };
+
+describe("resolveRetryPolicy", () => {
+  it("should return undefined when retries are not configured", () => {
+    expect(resolveRetryPolicy()).toBeUndefined();
+    expect(resolveRetryPolicy(false)).toBeUndefined();
+  });
+
+  it("should fill in defaults for an empty policy", () => {
+    expect(resolveRetryPolicy({})).toEqual(DEFAULT_RETRY_POLICY);
+  });
+
+  it("should let the call override the client policy", () => {
+    const resolved = resolveRetryPolicy(
+      { attempts: 5, baseDelay: 100 },
+      { attempts: 2 }
+    );
+    expect(resolved?.attempts).toBe(2);
+    expect(resolved?.baseDelay).toBe(100);
+  });
+
+  it("should enable retries per call without a client policy", () => {
+    expect(resolveRetryPolicy(undefined, { attempts: 2 })?.attempts).toBe(2);
+  });
+
+  it("should disable retries per call with false", () => {
+    expect(resolveRetryPolicy({ attempts: 5 }, false)).toBeUndefined();
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("should parse delay in seconds", () => {
+    expect(parseRetryAfter("120")).toBe(120000);
+  });
+
+  it("should parse an HTTP-date relative to now", () => {
+    const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:30 GMT", now)).toBe(30000);
+  });
+
+  it("should clamp dates in the past to zero", () => {
+    const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:27:00 GMT", now)).toBe(0);
+  });
+
+  it("should return undefined for missing or invalid values", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
+
+describe("getBackoffDelay", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should grow exponentially up to maxDelay", () => {
+    const capped = { ...policy, baseDelay: 100, maxDelay: 350 };
+    expect(getBackoffDelay(capped, 1)).toBe(100);
+    expect(getBackoffDelay(capped, 2)).toBe(200);
+    expect(getBackoffDelay(capped, 3)).toBe(350);
+  });
+
+  it("should apply full jitter when enabled", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const jittered = { ...policy, baseDelay: 100, jitter: true };
+    expect(getBackoffDelay(jittered, 2)).toBe(100);
+  });
+});
+
+describe("getRetryDelay", () => {
+  it("should retry retryable statuses for idempotent methods", () => {
+    const response = new Response(null, { status: 503 });
+    expect(getRetryDelay(policy, 1, request, { response })).toBe(300);
+  });
+
+  it("should not retry non-idempotent methods by default", () => {
+    const response = new Response(null, { status: 503 });
+    expect(
+      getRetryDelay(policy, 1, { ...request, method: "POST" }, { response })
+    ).toBeUndefined();
+  });
+
+  it("should not retry statuses outside the list", () => {
+    const response = new Response(null, { status: 404 });
+    expect(getRetryDelay(policy, 1, request, { response })).toBeUndefined();
+  });
+
+  it("should stop after the maximum number of attempts", () => {
+    const response = new Response(null, { status: 503 });
+    expect(getRetryDelay(policy, 3, request, { response })).toBeUndefined();
+  });
+
+  it("should honor Retry-After bounded by maxDelay", () => {
+    const response = new Response(null, {
+      status: 429,
+      headers: { "Retry-After": "2" },
+    });
+    expect(getRetryDelay(policy, 1, request, { response })).toBe(2000);
+    expect(
+      getRetryDelay({ ...policy, maxDelay: 1000 }, 1, request, { response })
+    ).toBe(1000);
+  });
+
+  it("should retry network errors but not other errors", () => {
+    expect(
+      getRetryDelay(policy, 1, request, { error: new NetworkError("failed") })
+    ).toBe(300);
+    expect(
+      getRetryDelay(policy, 1, request, { error: new Error("boom") })
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,93 @@
+import type { FetchRequest, RetryOptions } from "./types";
+import { NetworkError } from "./errors";
+import { isStreamBody } from "./body";
+
+export type RetryPolicy = Required<Omit<RetryOptions, "onRetry">> &
+  Pick<RetryOptions, "onRetry">;
+
+export type RetryOutcome = {
+  response?: Response;
+  error?: unknown;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 3,
+  baseDelay: 300,
+  maxDelay: 30000,
+  jitter: true,
+  statuses: [408, 429, 500, 502, 503, 504],
+  methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+};
+
+export const resolveRetryPolicy = (
+  clientRetry?: RetryOptions | false,
+  callRetry?: RetryOptions | false
+): RetryPolicy | undefined => {
+  if (callRetry === false || (callRetry === undefined && !clientRetry)) {
+    return undefined;
+  }
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...(clientRetry || {}),
+    ...(callRetry || {}),
+  };
+};
+
+export const parseRetryAfter = (
+  value: string | null,
+  now = Date.now()
+): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+};
+
+export const getBackoffDelay = (policy: RetryPolicy, attempt: number) => {
+  const delay = Math.min(
+    policy.maxDelay,
+    policy.baseDelay * 2 ** (attempt - 1)
+  );
+  return policy.jitter ? Math.random() * delay : delay;
+};
+
+export const getRetryDelay = (
+  policy: RetryPolicy,
+  attempt: number,
+  request: FetchRequest,
+  { response, error }: RetryOutcome
+): number | undefined => {
+  if (attempt >= policy.attempts) {
+    return undefined;
+  }
+  if (!policy.methods.includes(request.method.toUpperCase())) {
+    return undefined;
+  }
+  if (isStreamBody(request.body)) {
+    // a consumed stream can't be sent again
+    return undefined;
+  }
+
+  if (response) {
+    if (!policy.statuses.includes(response.status)) {
+      return undefined;
+    }
+    const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+    if (retryAfter !== undefined) {
+      return Math.min(policy.maxDelay, retryAfter);
+    }
+    return getBackoffDelay(policy, attempt);
+  }
+
+  if (error instanceof NetworkError) {
+    return getBackoffDelay(policy, attempt);
+  }
+  return undefined;
+};
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import { EventStream, EventStreamParser } from "./sse";
+
+const streamOf = (...chunks: string[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) =>
+        controller.enqueue(new TextEncoder().encode(chunk))
+      );
+      controller.close();
+    },
+  });
+
+describe("EventStreamParser", () => {
+  it("should parse events with id, event and data", () => {
+    const parser = new EventStreamParser();
+
+    expect(parser.feed("id: 1\nevent: update\ndata: hello\n\n")).toEqual([
+      { id: "1", event: "update", data: "hello", retry: undefined },
+    ]);
+  });
+
+  it("should default the event type to message", () => {
+    const parser = new EventStreamParser();
+    expect(parser.feed("data: hi\n\n")[0].event).toBe("message");
+  });
+
+  it("should join multi-line data with newlines", () => {
+    const parser = new EventStreamParser();
+    expect(parser.feed("data: first\ndata:second\ndata\n\n")[0].data).toBe(
+      "first\nsecond\n"
+    );
+  });
+
+  it("should ignore comments and unknown fields", () => {
+    const parser = new EventStreamParser();
+    expect(parser.feed(": keep-alive\nfoo: bar\ndata: x\n\n")).toEqual([
+      { id: undefined, event: "message", data: "x", retry: undefined },
+    ]);
+  });
+
+  it("should not dispatch blocks without data", () => {
+    const parser = new EventStreamParser();
+    expect(parser.feed("event: ping\n\n")).toEqual([]);
+  });
+
+  it("should track the retry interval and last event id across events", () => {
+    const parser = new EventStreamParser();
+    const events = parser.feed("retry: 5000\nid: 7\n\ndata: a\n\n");
+
+    expect(parser.retry).toBe(5000);
+    expect(parser.lastEventId).toBe("7");
+    expect(events).toEqual([
+      { id: "7", event: "message", data: "a", retry: undefined },
+    ]);
+  });
+
+  it("should ignore non-numeric retry values and ids with NULL", () => {
+    const parser = new EventStreamParser();
+    parser.feed("retry: soon\nid: a\0b\ndata: x\n\n");
+
+    expect(parser.retry).toBeUndefined();
+    expect(parser.lastEventId).toBe("");
+  });
+
+  it("should handle CRLF, CR and lines split across chunks", () => {
+    const parser = new EventStreamParser();
+    const events = [
+      ...parser.feed("\uFEFFdata: a"),
+      ...parser.feed("bc\r"),
+      ...parser.feed("\n\r\ndata: d\r\r"),
+    ];
+
+    expect(events.map(({ data }) => data)).toEqual(["abc", "d"]);
+  });
+
+  it("should discard an unterminated event on reset", () => {
+    const parser = new EventStreamParser();
+    parser.feed("data: partial\n");
+    parser.reset();
+
+    expect(parser.feed("data: next\n\n")[0].data).toBe("next");
+  });
+});
+
+describe("EventStream", () => {
+  it("should iterate events from a byte stream", async () => {
+    const stream = new EventStream(
+      streamOf("id: 1\ndata: one\n\n", "id: 2\nda", "ta: two\n\nretry: 10\n")
+    );
+    const events = [];
+    for await (const event of stream) {
+      events.push(event.data);
+    }
+
+    expect(events).toEqual(["one", "two"]);
+    expect(stream.lastEventId).toBe("2");
+    expect(stream.retry).toBe(10);
+  });
+
+  it("should yield nothing for an empty body", async () => {
+    const events = [];
+    for await (const event of new EventStream(null)) {
+      events.push(event);
+    }
+    expect(events).toEqual([]);
+  });
+
+  it("should cancel the body when the consumer stops early", async () => {
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode("data: a\n\n"));
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+
+    for await (const event of new EventStream(body)) {
+      expect(event.data).toBe("a");
+      break;
+    }
+
+    expect(cancelled).toBe(true);
+  });
+});
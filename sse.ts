@@ -0,0 +1,145 @@
+import type { ServerSentEvent } from "./types";
+
+export class EventStreamParser {
+  lastEventId = "";
+  retry?: number;
+  private buffer = "";
+  private data = "";
+  private event = "";
+  private eventRetry?: number;
+  private started = false;
+  private skipNewline = false;
+
+  feed(chunk: string): ServerSentEvent[] {
+    // A "\r" ending the previous chunk may be the first half of a "\r\n"
+    const text =
+      this.skipNewline && chunk.startsWith("\n") ? chunk.slice(1) : chunk;
+    this.skipNewline = text.endsWith("\r");
+    this.buffer += text;
+    if (!this.started && this.buffer.length) {
+      this.started = true;
+      this.buffer = this.buffer.replace(/^\uFEFF/, "");
+    }
+
+    const events: ServerSentEvent[] = [];
+    const lines = this.buffer.split(/\r\n|\r|\n/);
+    this.buffer = lines.pop() ?? "";
+    lines.forEach((line) => {
+      const event = this.line(line);
+      if (event) {
+        events.push(event);
+      }
+    });
+    return events;
+  }
+
+  // Per spec, an event without its terminating blank line is discarded.
+  reset(): void {
+    this.buffer = "";
+    this.data = "";
+    this.event = "";
+    this.eventRetry = undefined;
+  }
+
+  private line(line: string): ServerSentEvent | undefined {
+    if (line === "") {
+      return this.dispatch();
+    }
+    if (line.startsWith(":")) {
+      return undefined;
+    }
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case "event":
+        this.event = value;
+        break;
+      case "data":
+        this.data += `${value}\n`;
+        break;
+      case "id":
+        if (!value.includes("\0")) {
+          this.lastEventId = value;
+        }
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) {
+          this.retry = Number(value);
+          this.eventRetry = this.retry;
+        }
+        break;
+    }
+    return undefined;
+  }
+
+  private dispatch(): ServerSentEvent | undefined {
+    const { data, event, eventRetry } = this;
+    this.data = "";
+    this.event = "";
+    this.eventRetry = undefined;
+
+    if (!data) {
+      return undefined;
+    }
+    return {
+      id: this.lastEventId || undefined,
+      event: event || "message",
+      data: data.slice(0, -1),
+      retry: eventRetry,
+    };
+  }
+}
+
+export class EventStream implements AsyncIterable<ServerSentEvent> {
+  private parser = new EventStreamParser();
+  private reader?: ReadableStreamDefaultReader<Uint8Array>;
+
+  constructor(private body: ReadableStream<Uint8Array> | null) {}
+
+  get lastEventId(): string {
+    return this.parser.lastEventId;
+  }
+
+  get retry(): number | undefined {
+    return this.parser.retry;
+  }
+
+  async cancel(reason?: unknown): Promise<void> {
+    await (this.reader ?? this.body)?.cancel(reason).catch(() => {});
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<ServerSentEvent> {
+    if (!this.body) {
+      return;
+    }
+    const reader = this.body.getReader();
+    this.reader = reader;
+    const decoder = new TextDecoder();
+
+    let finished = false;
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          finished = true;
+          yield* this.parser.feed(decoder.decode());
+          this.parser.reset();
+          return;
+        }
+        yield* this.parser.feed(decoder.decode(value, { stream: true }));
+      }
+    } finally {
+      if (!finished) {
+        // the consumer stopped early, so the connection isn't needed
+        await reader.cancel().catch(() => {});
+      }
+      reader.releaseLock();
+    }
+  }
+}
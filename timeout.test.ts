@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createRequestSignal } from "./timeout";
+import { AbortError, NetworkError, TimeoutError } from "./errors";
+
+const url = "https://api.example.com/users";
+
+describe("createRequestSignal", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should return no signal without a caller signal or timeout", () => {
+    const { signal, clear } = createRequestSignal("GET", url);
+    expect(signal).toBeUndefined();
+    expect(clear).not.toThrow();
+  });
+
+  it("should abort with TimeoutError when the timer fires", () => {
+    vi.useFakeTimers();
+    const { signal } = createRequestSignal("GET", url, undefined, 100);
+
+    vi.advanceTimersByTime(99);
+    expect(signal?.aborted).toBe(false);
+    vi.advanceTimersByTime(1);
+
+    expect(signal?.aborted).toBe(true);
+    expect(signal?.reason).toBeInstanceOf(TimeoutError);
+    expect(signal?.reason).toBeInstanceOf(NetworkError);
+    expect(signal?.reason.timeout).toBe(100);
+    expect(signal?.reason.url).toBe(url);
+  });
+
+  it("should abort with AbortError when the caller aborts", () => {
+    const controller = new AbortController();
+    const { signal } = createRequestSignal("GET", url, controller.signal, 100);
+
+    controller.abort("navigated away");
+
+    expect(signal?.reason).toBeInstanceOf(AbortError);
+    expect(signal?.reason.cause).toBe("navigated away");
+  });
+
+  it("should be aborted immediately for an already aborted signal", () => {
+    const controller = new AbortController();
+    controller.abort();
+    const { signal } = createRequestSignal("GET", url, controller.signal);
+
+    expect(signal?.aborted).toBe(true);
+    expect(signal?.reason).toBeInstanceOf(AbortError);
+  });
+
+  it("should stop the timer and caller listener on clear", () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const { signal, clear } = createRequestSignal(
+      "GET",
+      url,
+      controller.signal,
+      100
+    );
+
+    clear();
+    vi.advanceTimersByTime(200);
+    controller.abort();
+
+    expect(signal?.aborted).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+import { AbortError, TimeoutError } from "./errors";
+
+export type RequestSignal = {
+  signal?: AbortSignal;
+  clear: () => void;
+};
+
+export const createRequestSignal = (
+  method: string,
+  url: string,
+  signal?: AbortSignal,
+  timeout?: number | false
+): RequestSignal => {
+  if (!signal && typeof timeout !== "number") {
+    return { signal: undefined, clear: () => {} };
+  }
+
+  const controller = new AbortController();
+  const onAbort = () =>
+    controller.abort(
+      new AbortError(`Request aborted: ${method} ${url}`, {
+        method,
+        url,
+        cause: signal?.reason,
+      })
+    );
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  if (typeof timeout === "number" && !controller.signal.aborted) {
+    timer = setTimeout(
+      () =>
+        controller.abort(
+          new TimeoutError(
+            `Request timed out after ${timeout}ms: ${method} ${url}`,
+            { method, url, timeout }
+          )
+        ),
+      timeout
+    );
+    // Don't keep a Node process alive for a body nobody reads.
+    (timer as { unref?: () => void }).unref?.();
+  }
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+};
+
+export const abortable = <T>(
+  promise: Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+};
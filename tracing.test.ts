@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from "vitest";
+import { formatTraceparent, tracingMiddleware } from "./tracing";
+import type { FetchRequest } from "./types";
+
+const createTracer = (traceState?: string) => {
+  const span = {
+    spanContext: () => ({
+      traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+      spanId: "00f067aa0ba902b7",
+      traceFlags: 1,
+      traceState: traceState ? { serialize: () => traceState } : undefined,
+    }),
+    setAttribute: vi.fn(),
+    setStatus: vi.fn(),
+    recordException: vi.fn(),
+    end: vi.fn(),
+  };
+  const tracer = { startSpan: vi.fn().mockReturnValue(span) };
+  return { tracer, span };
+};
+
+const request: FetchRequest = {
+  url: "https://api.example.com/items?page=2",
+  method: "GET",
+  headers: { Accept: "application/json" },
+};
+
+describe("formatTraceparent", () => {
+  it("should format a W3C traceparent header", () => {
+    expect(
+      formatTraceparent({
+        traceId: "a".repeat(32),
+        spanId: "b".repeat(16),
+        traceFlags: 0,
+      })
+    ).toBe(`00-${"a".repeat(32)}-${"b".repeat(16)}-00`);
+  });
+});
+
+describe("tracingMiddleware", () => {
+  it("should start a client span with request attributes", async () => {
+    const { tracer, span } = createTracer();
+    const next = vi.fn().mockResolvedValue(new Response());
+
+    await tracingMiddleware(tracer)(request, next);
+
+    expect(tracer.startSpan).toHaveBeenCalledWith("GET", {
+      kind: 2,
+      attributes: {
+        "http.request.method": "GET",
+        "url.full": "https://api.example.com/items?page=2",
+        "server.address": "api.example.com",
+        "server.port": 443,
+      },
+    });
+    expect(span.setAttribute).toHaveBeenCalledWith(
+      "http.response.status_code",
+      200
+    );
+    expect(span.setStatus).not.toHaveBeenCalled();
+    expect(span.end).toHaveBeenCalledTimes(1);
+  });
+
+  it("should inject traceparent and tracestate headers", async () => {
+    const { tracer } = createTracer("vendor=abc");
+    const next = vi.fn().mockResolvedValue(new Response());
+
+    await tracingMiddleware(tracer)(request, next);
+
+    expect(next.mock.calls[0][0].headers).toEqual({
+      Accept: "application/json",
+      traceparent: "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+      tracestate: "vendor=abc",
+    });
+  });
+
+  it("should omit tracestate when the span has none", async () => {
+    const { tracer } = createTracer();
+    const next = vi.fn().mockResolvedValue(new Response());
+
+    await tracingMiddleware(tracer)({ ...request, headers: undefined }, next);
+
+    expect(Object.keys(next.mock.calls[0][0].headers)).toEqual(["traceparent"]);
+  });
+
+  it("should replace an incoming traceparent header", async () => {
+    const { tracer } = createTracer();
+    const next = vi.fn().mockResolvedValue(new Response());
+
+    await tracingMiddleware(tracer)(
+      { ...request, headers: { Traceparent: "00-old-old-00" } },
+      next
+    );
+
+    expect(next.mock.calls[0][0].headers).toEqual({
+      traceparent: "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+    });
+  });
+
+  it("should mark error responses on the span", async () => {
+    const { tracer, span } = createTracer();
+    const next = vi.fn().mockResolvedValue(new Response(null, { status: 503 }));
+
+    await tracingMiddleware(tracer)(request, next);
+
+    expect(span.setAttribute).toHaveBeenCalledWith("error.type", "503");
+    expect(span.setStatus).toHaveBeenCalledWith({ code: 2 });
+    expect(span.end).toHaveBeenCalledTimes(1);
+  });
+
+  it("should record thrown errors and rethrow them", async () => {
+    const { tracer, span } = createTracer();
+    const error = new TypeError("Failed to fetch");
+    const next = vi.fn().mockRejectedValue(error);
+
+    await expect(tracingMiddleware(tracer)(request, next)).rejects.toBe(error);
+
+    expect(span.recordException).toHaveBeenCalledWith(error);
+    expect(span.setAttribute).toHaveBeenCalledWith("error.type", "TypeError");
+    expect(span.setStatus).toHaveBeenCalledWith({
+      code: 2,
+      message: "Failed to fetch",
+    });
+    expect(span.end).toHaveBeenCalledTimes(1);
+  });
+});
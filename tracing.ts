@@ -0,0 +1,93 @@
+import type { Middleware } from "./types";
+import { mergeHeaders } from "./utils";
+
+// Structural subsets of @opentelemetry/api, so a real tracer can be
+// passed in without this package depending on it.
+export type TraceSpanContext = {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+  traceState?: { serialize(): string };
+};
+
+export type TraceSpan = {
+  spanContext(): TraceSpanContext;
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): void;
+  end(): void;
+};
+
+export type Tracer = {
+  startSpan(
+    name: string,
+    options?: {
+      kind?: number;
+      attributes?: Record<string, string | number | boolean>;
+    }
+  ): TraceSpan;
+};
+
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+export const formatTraceparent = ({
+  traceId,
+  spanId,
+  traceFlags,
+}: TraceSpanContext) =>
+  `00-${traceId}-${spanId}-${(traceFlags & 0xff)
+    .toString(16)
+    .padStart(2, "0")}`;
+
+// One client span per attempt, as the HTTP semantic conventions ask for,
+// so retries and auth replays show up as separate spans.
+export const tracingMiddleware =
+  (tracer: Tracer): Middleware =>
+  async (request, next) => {
+    const url = new URL(request.url);
+    const span = tracer.startSpan(request.method, {
+      kind: SPAN_KIND_CLIENT,
+      attributes: {
+        "http.request.method": request.method,
+        "url.full": request.url,
+        "server.address": url.hostname,
+        "server.port":
+          Number(url.port) || (url.protocol === "https:" ? 443 : 80),
+      },
+    });
+
+    const context = span.spanContext();
+    const tracestate = context.traceState?.serialize();
+    const trace: Record<string, string> = {
+      traceparent: formatTraceparent(context),
+    };
+    if (tracestate) {
+      trace.tracestate = tracestate;
+    }
+    const headers = mergeHeaders(request.headers, trace);
+
+    try {
+      const response = await next({ ...request, headers });
+      span.setAttribute("http.response.status_code", response.status);
+      if (response.status >= 400) {
+        span.setAttribute("error.type", String(response.status));
+        span.setStatus({ code: SPAN_STATUS_ERROR });
+      }
+      return response;
+    } catch (error) {
+      const exception = error instanceof Error ? error : String(error);
+      span.recordException(exception);
+      span.setAttribute(
+        "error.type",
+        error instanceof Error ? error.name : "_OTHER"
+      );
+      span.setStatus({
+        code: SPAN_STATUS_ERROR,
+        message: error instanceof Error ? error.message : undefined,
+      });
+      throw error;
+    } finally {
+      span.end();
+    }
+  };
@@ -1,5 +1,214 @@
-export type FetchOptions = {
+export type QueryValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | null
+  | undefined
+  | QueryValue[]
+  | { [key: string]: QueryValue };
+
+export type QueryParams = Record<string, QueryValue>;
+
+export type ArrayFormat = "repeat" | "comma" | "brackets";
+
+export type Codec = {
+  contentType: string;
+  encode: (value: unknown) => string;
+  decode: (text: string) => unknown;
+};
+
+export type ValidationIssue = {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+};
+
+export type StandardSchemaResult<T> =
+  | { readonly value: T; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<ValidationIssue> };
+
+export type StandardSchema<T = unknown> = {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<T> | Promise<StandardSchemaResult<T>>;
+  };
+};
+
+export type Parser<T = unknown> = (input: unknown) => T | Promise<T>;
+
+export type Schema<T = unknown> = StandardSchema<T> | Parser<T>;
+
+export type RequestInitOptions = Pick<
+  RequestInit,
+  "credentials" | "mode" | "redirect" | "keepalive"
+>;
+
+export type FetchFunction = (
+  input: RequestInfo | URL,
+  init?: RequestInit
+) => Promise<Response>;
+
+export type FetchOptions<T = unknown, K = unknown> = RequestInitOptions & {
+  headers?: Record<string, any>;
+  query?: QueryParams;
+  arrayFormat?: ArrayFormat;
+  retry?: RetryOptions | false;
+  signal?: AbortSignal;
+  timeout?: number | false;
+  codec?: Codec;
+  schema?: Schema<T>;
+  payloadSchema?: Schema<K>;
+  cache?: boolean;
+  dedupe?: boolean;
+  onUploadProgress?: ProgressCallback;
+  onDownloadProgress?: ProgressCallback;
+  auth?: AuthProvider | false;
+  // queued requests with a higher priority are sent first
+  priority?: number;
+  // skips Content-Type detection and custom parsers
+  responseType?: ContentType;
+};
+
+export type FetchClientOptions = RequestInitOptions & {
+  // defaults to the global fetch, looked up on every request
+  fetch?: FetchFunction;
   headers?: Record<string, any>;
+  retry?: RetryOptions | false;
+  timeout?: number | false;
+  codec?: Codec;
+  cache?: boolean | CacheOptions;
+  dedupe?: boolean;
+  auth?: AuthProvider;
+  cookies?: CookieStore;
+  rateLimit?: RateLimitOptions;
+  circuitBreaker?: CircuitBreakerOptions;
+  hooks?: ClientHooks;
+  // media type (or "type/*") to parser, checked before built-in detection
+  parsers?: Record<string, ResponseParser>;
+  // maps error responses to problem details; defaults to application/problem+json
+  problemParser?: ProblemParser;
+};
+
+export type HookTiming = {
+  request: FetchRequest;
+  // epoch ms when the request started
+  startTime: number;
+  // ms elapsed since startTime
+  duration: number;
+};
+
+export type ClientHooks = {
+  onRequestStart?: (event: {
+    request: FetchRequest;
+    startTime: number;
+  }) => void;
+  onResponseHeaders?: (event: HookTiming & { response: Response }) => void;
+  onBodyConsumed?: (event: HookTiming & { response: Response }) => void;
+  onError?: (event: HookTiming & { error: unknown }) => void;
+  onRetry?: (event: HookTiming & RetryInfo) => void;
+};
+
+export type RateLimitOptions = {
+  concurrency?: number;
+  // token bucket: at most `limit` requests per `interval` ms
+  limit?: number;
+  interval?: number;
+  scope?: "client" | "host";
+  maxQueue?: number;
+  // follow X-RateLimit-Remaining / RateLimit-Reset from responses
+  adaptive?: boolean;
+};
+
+export type CacheEntry = {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: ArrayBuffer;
+  vary: Record<string, string>;
+  storedAt: number;
+};
+
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+}
+
+export type Cookie = {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  // without a Domain attribute, only the exact host receives the cookie
+  hostOnly: boolean;
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite?: "Strict" | "Lax" | "None";
+  expires?: number;
+  created: number;
+};
+
+export interface CookieStore {
+  apply(request: FetchRequest): FetchRequest;
+  capture(url: string, headers: Headers): void;
+}
+
+export type CacheOptions = {
+  store?: CacheStore;
+  maxEntries?: number;
+};
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type CircuitOutcome = {
+  response?: Response;
+  error?: unknown;
+};
+
+export type CircuitBreakerOptions = {
+  // share of failed requests within `window` ms that opens the circuit
+  failureThreshold?: number;
+  minimumRequests?: number;
+  window?: number;
+  // how long the circuit stays open before probing again
+  resetTimeout?: number;
+  halfOpenRequests?: number;
+  isFailure?: (outcome: CircuitOutcome) => boolean;
+  onStateChange?: (change: {
+    host: string;
+    from: CircuitState;
+    to: CircuitState;
+  }) => void;
+};
+
+export type CircuitStatus = {
+  host: string;
+  state: CircuitState;
+  requests: number;
+  failures: number;
+  openedAt?: number;
+};
+
+export type RetryInfo = {
+  attempt: number;
+  delay: number;
+  request: FetchRequest;
+  response?: Response;
+  error?: unknown;
+};
+
+export type RetryOptions = {
+  attempts?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  jitter?: boolean;
+  statuses?: number[];
+  methods?: string[];
+  onRetry?: (info: RetryInfo) => void;
 };
 
 export type ContentType =
@@ -10,31 +219,181 @@ export type ContentType =
   | "json"
   | "formData"
   | "xml"
-  | "html";
+  | "html"
+  | "eventStream"
+  | "ndjson";
+
+export type ResponseParser = (response: Response) => unknown;
+
+// RFC 9457 problem details; any other members are extensions
+export type ProblemDetails = {
+  type: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: unknown;
+};
+
+export type ProblemParser = (
+  response: Response
+) =>
+  | ProblemDetails
+  | undefined
+  | null
+  | Promise<ProblemDetails | undefined | null>;
 
 export type FetchResponse<T> = {
   data: () => Promise<T>;
   status: number;
   statusText: string;
+  headers: Headers;
+};
+
+export type RequestOptions<T = unknown, K = unknown> = FetchOptions<T, K> & {
+  method: string;
+  url: string;
+  body?: K;
+};
+
+export type ServerSentEvent = {
+  id?: string;
+  event: string;
+  data: string;
+  retry?: number;
+};
+
+export type SseOptions = Omit<FetchOptions, "schema"> & {
+  method?: string;
+  body?: unknown;
+  lastEventId?: string;
+  reconnect?: boolean;
+  retryDelay?: number;
+  maxRetries?: number;
+};
+
+export type NdjsonOptions<T = unknown> = Omit<FetchOptions, "schema"> & {
+  method?: string;
+  body?: unknown;
+  schema?: Schema<T>;
+};
+
+export type TransferProgress = {
+  loaded: number;
+  total?: number;
+  // bytes per second, averaged since the transfer started
+  rate: number;
+};
+
+export type ProgressCallback = (progress: TransferProgress) => void;
+
+export type PageRequest = {
+  url: string;
+  query?: QueryParams;
+};
+
+export type PageContext<P, I> = {
+  data: P;
+  items: I[];
+  request: PageRequest;
+  response: FetchResponse<P>;
+  // the resolved URL the page was fetched from
+  url: string;
+  page: number;
+};
+
+export type PaginationStrategy<P, I> = {
+  items?: (data: P) => I[];
+  start?: (request: PageRequest) => PageRequest;
+  next: (
+    context: PageContext<P, I>
+  ) => PageRequest | undefined | Promise<PageRequest | undefined>;
+};
+
+export type PaginateOptions<P, I> = FetchOptions<P> & {
+  strategy?: PaginationStrategy<P, I>;
+  maxPages?: number;
+  maxItems?: number;
 };
 
+export type Page<P, I> = {
+  data: P;
+  items: I[];
+  response: FetchResponse<P>;
+  page: number;
+};
+
+export type FetchRequest = RequestInitOptions & {
+  url: string;
+  method: string;
+  headers?: Record<string, any>;
+  body?: BodyInit | null;
+  signal?: AbortSignal;
+};
+
+export type AuthProvider = {
+  authorize: (request: FetchRequest) => FetchRequest | Promise<FetchRequest>;
+  // Called with the authorized request after a 401; resolving true
+  // replays it once.
+  refresh?: (request: FetchRequest, response: Response) => Promise<boolean>;
+};
+
+export type Next = (request: FetchRequest) => Promise<Response>;
+
+export type Middleware = (
+  request: FetchRequest,
+  next: Next
+) => Promise<Response>;
+
 export interface FetchClientInterface {
+  use(middleware: Middleware): this;
+  request<T = unknown, K = unknown>(
+    options: RequestOptions<T, K>
+  ): Promise<FetchResponse<T>>;
   get<T = unknown>(
     url: string,
-    options?: FetchOptions
+    options?: FetchOptions<T>
   ): Promise<FetchResponse<T>>;
   post<T = unknown, K = unknown>(
     url: string,
     payload: K,
-    options?: FetchOptions
+    options?: FetchOptions<T, K>
   ): Promise<FetchResponse<T>>;
   put<T = unknown, K = unknown>(
     url: string,
     payload: K,
-    options?: FetchOptions
+    options?: FetchOptions<T, K>
+  ): Promise<FetchResponse<T>>;
+  patch<T = unknown, K = unknown>(
+    url: string,
+    payload: K,
+    options?: FetchOptions<T, K>
   ): Promise<FetchResponse<T>>;
   delete<T = unknown>(
     url: string,
-    options?: FetchOptions
+    options?: FetchOptions<T>
   ): Promise<FetchResponse<T>>;
+  head(
+    url: string,
+    options?: FetchOptions<undefined>
+  ): Promise<FetchResponse<undefined>>;
+  options<T = unknown>(
+    url: string,
+    options?: FetchOptions<T>
+  ): Promise<FetchResponse<T>>;
+  sse(url: string, options?: SseOptions): AsyncGenerator<ServerSentEvent>;
+  ndjson<T = unknown>(
+    url: string,
+    options?: NdjsonOptions<T>
+  ): AsyncGenerator<T>;
+  pages<P = unknown, I = unknown>(
+    url: string,
+    options?: Omit<PaginateOptions<P, I>, "maxItems">
+  ): AsyncGenerator<Page<P, I>>;
+  paginate<I = unknown, P = unknown>(
+    url: string,
+    options?: PaginateOptions<P, I>
+  ): AsyncGenerator<I>;
+  circuits(): CircuitStatus[];
+  extend(options?: FetchClientOptions): FetchClientInterface;
 }
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { buildUrl, serializeQuery } from "./url";
+
+describe("serializeQuery", () => {
+  it("should serialize primitives", () => {
+    expect(serializeQuery({ q: "a b", page: 2, active: true })).toBe(
+      "q=a%20b&page=2&active=true"
+    );
+  });
+
+  it("should skip undefined values and keep null as empty", () => {
+    expect(serializeQuery({ a: undefined, b: null, c: "x" })).toBe("b=&c=x");
+  });
+
+  it("should serialize dates as ISO strings", () => {
+    const date = new Date("2024-01-02T03:04:05.000Z");
+    expect(serializeQuery({ since: date })).toBe(
+      "since=2024-01-02T03%3A04%3A05.000Z"
+    );
+  });
+
+  it("should repeat array keys by default", () => {
+    expect(serializeQuery({ id: [1, 2, 3] })).toBe("id=1&id=2&id=3");
+  });
+
+  it("should join arrays with commas", () => {
+    expect(serializeQuery({ id: [1, 2, 3] }, "comma")).toBe("id=1,2,3");
+    expect(serializeQuery({ tag: ["a,b", "c"] }, "comma")).toBe("tag=a%2Cb,c");
+  });
+
+  it("should suffix array keys with brackets", () => {
+    expect(serializeQuery({ id: [1, 2] }, "brackets")).toBe("id[]=1&id[]=2");
+  });
+
+  it("should serialize nested objects with bracket keys", () => {
+    expect(serializeQuery({ filter: { name: "Ann", age: { gte: 18 } } })).toBe(
+      "filter[name]=Ann&filter[age][gte]=18"
+    );
+  });
+
+  it("should index objects inside arrays", () => {
+    expect(serializeQuery({ sort: [{ field: "name" }] }, "comma")).toBe(
+      "sort[0][field]=name"
+    );
+  });
+
+  it("should omit empty arrays", () => {
+    expect(serializeQuery({ id: [] }, "comma")).toBe("");
+    expect(serializeQuery({ id: [] })).toBe("");
+  });
+});
+
+describe("buildUrl", () => {
+  it("should join base and path regardless of slashes", () => {
+    expect(buildUrl("https://api.example.com", "users")).toBe(
+      "https://api.example.com/users"
+    );
+    expect(buildUrl("https://api.example.com/", "/users")).toBe(
+      "https://api.example.com/users"
+    );
+    expect(buildUrl("https://api.example.com/v1", "/users")).toBe(
+      "https://api.example.com/v1/users"
+    );
+    expect(buildUrl("https://api.example.com/v1/", "users/1")).toBe(
+      "https://api.example.com/v1/users/1"
+    );
+  });
+
+  it("should let absolute URLs bypass the base", () => {
+    expect(
+      buildUrl("https://api.example.com/v1", "https://cdn.example.com/a.png")
+    ).toBe("https://cdn.example.com/a.png");
+  });
+
+  it("should resolve paths with a colon in a segment against the base", () => {
+    expect(buildUrl("https://api.example.com/v1", "projects:list")).toBe(
+      "https://api.example.com/v1/projects:list"
+    );
+    expect(buildUrl("https://api.example.com/v1", "users:1/roles")).toBe(
+      "https://api.example.com/v1/users:1/roles"
+    );
+  });
+
+  it("should append the query to the path", () => {
+    expect(
+      buildUrl("https://api.example.com", "/users", { page: 1, q: undefined })
+    ).toBe("https://api.example.com/users?page=1");
+  });
+
+  it("should merge with a query already present on the path", () => {
+    expect(
+      buildUrl("https://api.example.com", "/users?sort=name", { page: 2 })
+    ).toBe("https://api.example.com/users?sort=name&page=2");
+  });
+
+  it("should use the given array format", () => {
+    expect(
+      buildUrl("https://api.example.com", "/users", { id: [1, 2] }, "comma")
+    ).toBe("https://api.example.com/users?id=1,2");
+  });
+});
@@ -0,0 +1,97 @@
+import type { ArrayFormat, QueryParams, QueryValue } from "./types";
+
+const encodeKey = (key: string) =>
+  encodeURIComponent(key).replace(/%5B/g, "[").replace(/%5D/g, "]");
+
+const isPlainObject = (value: unknown): value is Record<string, QueryValue> =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof Date);
+
+const serializeValue = (value: QueryValue): string =>
+  value instanceof Date ? value.toISOString() : String(value);
+
+const serializeEntry = (
+  parts: string[],
+  key: string,
+  value: QueryValue,
+  arrayFormat: ArrayFormat
+) => {
+  if (value === undefined) {
+    return;
+  }
+  if (value === null) {
+    parts.push(`${encodeKey(key)}=`);
+    return;
+  }
+  if (Array.isArray(value)) {
+    const items = value.filter((item) => item !== undefined);
+    const nested = items.some(
+      (item) => isPlainObject(item) || Array.isArray(item)
+    );
+    if (arrayFormat === "comma" && !nested) {
+      if (items.length) {
+        const joined = items
+          .map((item) => encodeURIComponent(serializeValue(item ?? "")))
+          .join(",");
+        parts.push(`${encodeKey(key)}=${joined}`);
+      }
+      return;
+    }
+    items.forEach((item, index) => {
+      const itemKey =
+        isPlainObject(item) || Array.isArray(item)
+          ? `${key}[${index}]`
+          : arrayFormat === "brackets"
+          ? `${key}[]`
+          : key;
+      serializeEntry(parts, itemKey, item, arrayFormat);
+    });
+    return;
+  }
+  if (isPlainObject(value)) {
+    Object.keys(value).forEach((childKey) =>
+      serializeEntry(parts, `${key}[${childKey}]`, value[childKey], arrayFormat)
+    );
+    return;
+  }
+  parts.push(`${encodeKey(key)}=${encodeURIComponent(serializeValue(value))}`);
+};
+
+export const serializeQuery = (
+  query: QueryParams,
+  arrayFormat: ArrayFormat = "repeat"
+): string => {
+  const parts: string[] = [];
+  Object.keys(query).forEach((key) =>
+    serializeEntry(parts, key, query[key], arrayFormat)
+  );
+  return parts.join("&");
+};
+
+const ABSOLUTE_URL = /^[a-z][a-z\d+.-]*:\/\//i;
+
+export const buildUrl = (
+  baseUrl: string,
+  path: string,
+  query?: QueryParams,
+  arrayFormat?: ArrayFormat
+): string => {
+  // "./" keeps a colon in the first segment ("users:1") from being read
+  // as a scheme
+  const url = ABSOLUTE_URL.test(path)
+    ? new URL(path)
+    : new URL(
+        `./${path.replace(/^\/+/, "")}`,
+        baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`
+      );
+
+  const serialized = query ? serializeQuery(query, arrayFormat) : "";
+  if (serialized) {
+    const existing = url.search.replace(/^\?/, "");
+    url.search = existing ? `${existing}&${serialized}` : serialized;
+  }
+
+  return url.toString();
+};
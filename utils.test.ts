@@ -1,5 +1,19 @@
-import { describe, it, expect } from "vitest";
-import { getContentType, handleError, getResponseType } from "./utils";
+import { describe, it, expect, vi } from "vitest";
+import {
+  getContentType,
+  handleError,
+  getResponseType,
+  mergeHeaders,
+  parseMediaType,
+  getHeader,
+  toHeaderRecord,
+  escapeRegExp,
+  isPlainObject,
+} from "./utils";
+import { dateJsonCodec } from "./codec";
+import { ClientError, HttpError, ServerError } from "./errors";
+import { EventStream } from "./sse";
+import { NdjsonStream } from "./ndjson";
 
 describe("getContentType", () => {
   it("should return 'json' for application/json", () => {
@@ -14,26 +28,57 @@ describe("getContentType", () => {
     expect(getContentType(headers)).toBe("json");
   });
 
-  it("should return 'bytes' for application/bytes", () => {
-    const headers = new Headers({ "Content-Type": "application/bytes" });
-    expect(getContentType(headers)).toBe("bytes");
+  it("should return 'json' for structured +json suffixes and text/json", () => {
+    [
+      "application/problem+json",
+      "application/vnd.api+json; charset=utf-8",
+      "text/json",
+      "Application/JSON",
+    ].forEach((type) => {
+      expect(getContentType(new Headers({ "Content-Type": type }))).toBe(
+        "json"
+      );
+    });
   });
 
-  it("should return 'formData' for application/form-data", () => {
-    const headers = new Headers({ "Content-Type": "application/form-data" });
-    expect(getContentType(headers)).toBe("formData");
+  it("should return 'formData' for multipart and urlencoded forms", () => {
+    expect(
+      getContentType(
+        new Headers({ "Content-Type": "multipart/form-data; boundary=abc" })
+      )
+    ).toBe("formData");
+    expect(
+      getContentType(
+        new Headers({ "Content-Type": "application/x-www-form-urlencoded" })
+      )
+    ).toBe("formData");
   });
 
-  it("should return 'arrayBuffer' for application/arraybuffer", () => {
-    const headers = new Headers({
-      "Content-Type": "application/arraybuffer",
+  it("should return 'xml' for XML types", () => {
+    ["text/xml", "application/xml", "application/atom+xml"].forEach((type) => {
+      expect(getContentType(new Headers({ "Content-Type": type }))).toBe("xml");
+    });
+  });
+
+  it("should return 'html' for HTML types", () => {
+    ["text/html; charset=utf-8", "application/xhtml+xml"].forEach((type) => {
+      expect(getContentType(new Headers({ "Content-Type": type }))).toBe(
+        "html"
+      );
     });
-    expect(getContentType(headers)).toBe("arrayBuffer");
   });
 
-  it("should return 'blob' for application/blob", () => {
-    const headers = new Headers({ "Content-Type": "application/blob" });
-    expect(getContentType(headers)).toBe("blob");
+  it("should return 'blob' for binary types", () => {
+    [
+      "application/octet-stream",
+      "image/png",
+      "audio/mpeg",
+      "font/woff2",
+    ].forEach((type) => {
+      expect(getContentType(new Headers({ "Content-Type": type }))).toBe(
+        "blob"
+      );
+    });
   });
 
   it("should return 'text' for text/plain", () => {
@@ -41,8 +86,8 @@ describe("getContentType", () => {
     expect(getContentType(headers)).toBe("text");
   });
 
-  it("should return 'text' for text/html", () => {
-    const headers = new Headers({ "Content-Type": "text/html" });
+  it("should return 'text' for other text types", () => {
+    const headers = new Headers({ "Content-Type": "text/csv" });
     expect(getContentType(headers)).toBe("text");
   });
 
@@ -55,6 +100,31 @@ describe("getContentType", () => {
     const headers = new Headers({ "Content-Type": "application/unknown" });
     expect(getContentType(headers)).toBe("text");
   });
+
+  it("should return 'text' for malformed content types", () => {
+    const headers = new Headers({ "Content-Type": "json" });
+    expect(getContentType(headers)).toBe("text");
+  });
+});
+
+describe("parseMediaType", () => {
+  it("should split type, subtype, suffix and parameters", () => {
+    expect(
+      parseMediaType('Application/Problem+JSON; Charset="utf-8"; q=1')
+    ).toEqual({
+      type: "application",
+      subtype: "problem+json",
+      suffix: "json",
+      parameters: { charset: "utf-8", q: "1" },
+    });
+  });
+
+  it("should return undefined for missing or malformed values", () => {
+    expect(parseMediaType(null)).toBeUndefined();
+    expect(parseMediaType("")).toBeUndefined();
+    expect(parseMediaType("text")).toBeUndefined();
+    expect(parseMediaType("text/html/extra")).toBeUndefined();
+  });
 });
 
 describe("handleError", () => {
@@ -94,6 +164,37 @@ describe("handleError", () => {
     );
   });
 
+  it("should describe the error with problem details", () => {
+    const problem = {
+      type: "about:blank",
+      title: "Validation failed",
+      detail: "Name is required",
+    };
+
+    expect(() => handleError(422, "Unprocessable Entity", { problem })).toThrow(
+      "Client error: [422] (Validation failed: Name is required)"
+    );
+    expect(() =>
+      handleError(503, "Service Unavailable", {
+        problem: { type: "about:blank", title: "Maintenance" },
+      })
+    ).toThrow("Server error: [503] (Maintenance)");
+  });
+
+  it("should attach problem details to the error", () => {
+    const problem = { type: "https://example.com/probs/out-of-credit" };
+
+    try {
+      handleError(403, "Forbidden", { problem });
+    } catch (error) {
+      expect((error as ClientError).problem).toBe(problem);
+      expect((error as ClientError).message).toBe(
+        "Client error: [403] (Forbidden)"
+      );
+    }
+    expect.assertions(2);
+  });
+
   it("should throw unknown error for 300 status code", () => {
     expect(() => handleError(300, "Multiple Choices")).toThrow(
       "Unknown error: [300] (Multiple Choices)"
@@ -109,6 +210,39 @@ describe("handleError", () => {
   it("should handle empty statusText", () => {
     expect(() => handleError(400, "")).toThrow("Client error: [400] ()");
   });
+
+  it("should throw ClientError for 4xx and ServerError for 5xx", () => {
+    expect(() => handleError(404, "Not Found")).toThrow(ClientError);
+    expect(() => handleError(502, "Bad Gateway")).toThrow(ServerError);
+    expect(() => handleError(300, "Multiple Choices")).toThrow(HttpError);
+  });
+
+  it("should attach response details and request info to the error", async () => {
+    const response = new Response(JSON.stringify({ message: "Invalid" }), {
+      status: 422,
+      statusText: "Unprocessable Entity",
+      headers: { "Content-Type": "application/json", "X-Trace": "1" },
+    });
+
+    let error: unknown;
+    try {
+      handleError(422, "Unprocessable Entity", {
+        response,
+        method: "POST",
+        url: "https://api.example.com/users",
+      });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ClientError);
+    const clientError = error as ClientError;
+    expect(clientError.status).toBe(422);
+    expect(clientError.headers.get("X-Trace")).toBe("1");
+    expect(clientError.method).toBe("POST");
+    expect(clientError.url).toBe("https://api.example.com/users");
+    expect(await clientError.body()).toEqual({ message: "Invalid" });
+  });
 });
 
 describe("getResponseType", () => {
@@ -132,40 +266,85 @@ describe("getResponseType", () => {
     expect(result).toBe(mockText);
   });
 
-  it("should call response.blob() for blob content type", async () => {
-    const mockBlob = new Blob(["test"], { type: "application/blob" });
-    const response = new Response(mockBlob, {
-      headers: { "Content-Type": "application/blob" },
+  it("should call response.blob() for binary content types", async () => {
+    const response = new Response(new Uint8Array([137, 80, 78, 71]), {
+      headers: { "Content-Type": "image/png" },
     });
 
-    const result = await getResponseType(response);
+    const result = await getResponseType<Blob>(response);
     expect(result).toBeInstanceOf(Blob);
+    expect(result.type).toBe("image/png");
+  });
+
+  it("should call response.formData() for multipart content", async () => {
+    const form = new FormData();
+    form.append("key", "value");
+
+    const result = await getResponseType<FormData>(new Response(form));
+    expect(result).toBeInstanceOf(FormData);
+    expect(result.get("key")).toBe("value");
   });
 
-  it("should call response.arrayBuffer() for arrayBuffer content type", async () => {
-    const buffer = new ArrayBuffer(8);
-    const response = new Response(buffer, {
-      headers: { "Content-Type": "application/arraybuffer" },
+  it("should decode +json types with the codec", async () => {
+    const response = new Response('{"when":"2024-01-01T00:00:00Z"}', {
+      headers: { "Content-Type": "application/vnd.api+json" },
     });
 
-    const result = await getResponseType(response);
+    const result = await getResponseType<{ when: Date }>(
+      response,
+      dateJsonCodec
+    );
+    expect(result.when).toBeInstanceOf(Date);
+  });
+
+  it("should honour a responseType override", async () => {
+    const response = new Response('{"a":1}', {
+      headers: { "Content-Type": "application/json" },
+    });
+
+    const result = await getResponseType(response, undefined, {
+      responseType: "arrayBuffer",
+    });
     expect(result).toBeInstanceOf(ArrayBuffer);
   });
 
-  it("should call response.formData() for formData content type", async () => {
-    // Note: Creating a mock response that returns FormData
-    // The actual Response API requires multipart/form-data, but our code checks for application/form-data
-    const mockFormData = new FormData();
-    mockFormData.append("key", "value");
+  it("should prefer an exact custom parser over a wildcard", async () => {
+    const parsers = {
+      "application/*": () => "wildcard",
+      "application/x-custom": async (response: Response) =>
+        (await response.text()).toUpperCase(),
+    };
+
+    expect(
+      await getResponseType(
+        new Response("abc", {
+          headers: { "Content-Type": "application/x-custom; v=1" },
+        }),
+        undefined,
+        { parsers }
+      )
+    ).toBe("ABC");
+    expect(
+      await getResponseType(
+        new Response("{}", { headers: { "Content-Type": "application/json" } }),
+        undefined,
+        { parsers }
+      )
+    ).toBe("wildcard");
+  });
 
-    // Create response with application/form-data to match our getContentType logic
-    const mockResponse = {
-      headers: new Headers({ "Content-Type": "application/form-data" }),
-      formData: async () => mockFormData,
-    } as Response;
+  it("should skip custom parsers when responseType is set", async () => {
+    const parser = vi.fn();
+    const response = new Response("abc", {
+      headers: { "Content-Type": "application/x-custom" },
+    });
 
-    const result = await getResponseType(mockResponse);
-    expect(result).toBeInstanceOf(FormData);
+    const result = await getResponseType(response, undefined, {
+      parsers: { "application/x-custom": parser },
+      responseType: "text",
+    });
+    expect(result).toBe("abc");
+    expect(parser).not.toHaveBeenCalled();
   });
 
   it("should call response.text() for missing content type (default)", async () => {
@@ -186,3 +365,125 @@ describe("getResponseType", () => {
     expect(result).toBe(mockText);
   });
 });
+
+describe("event streams", () => {
+  it("should detect text/event-stream", () => {
+    const headers = new Headers({ "Content-Type": "text/event-stream" });
+    expect(getContentType(headers)).toBe("eventStream");
+  });
+
+  it("should return an EventStream instead of buffering the body", async () => {
+    const response = new Response("data: hi\n\n", {
+      headers: { "Content-Type": "text/event-stream; charset=utf-8" },
+    });
+
+    const result = await getResponseType(response);
+    expect(result).toBeInstanceOf(EventStream);
+  });
+});
+
+describe("newline-delimited JSON", () => {
+  it("should detect application/x-ndjson and application/jsonl", () => {
+    expect(
+      getContentType(new Headers({ "Content-Type": "application/x-ndjson" }))
+    ).toBe("ndjson");
+    expect(
+      getContentType(new Headers({ "Content-Type": "application/jsonl" }))
+    ).toBe("ndjson");
+  });
+
+  it("should return an NdjsonStream instead of buffering the body", async () => {
+    const response = new Response('{"a":1}\n', {
+      headers: { "Content-Type": "application/x-ndjson; charset=utf-8" },
+    });
+
+    const result = await getResponseType(response);
+    expect(result).toBeInstanceOf(NdjsonStream);
+  });
+});
+
+describe("getHeader", () => {
+  it("should look headers up case-insensitively as strings", () => {
+    const headers = {
+      "Content-Length": 42,
+      Accept: "*/*",
+      "X-Gone": undefined,
+    };
+
+    expect(getHeader(headers, "content-length")).toBe("42");
+    expect(getHeader(headers, "ACCEPT")).toBe("*/*");
+    expect(getHeader(headers, "X-Gone")).toBeUndefined();
+    expect(getHeader(undefined, "Accept")).toBeUndefined();
+  });
+});
+
+describe("toHeaderRecord", () => {
+  it("should flatten any headers input into lowercased names", () => {
+    expect(toHeaderRecord(new Headers({ Accept: "*/*" }))).toEqual({
+      accept: "*/*",
+    });
+    expect(toHeaderRecord([["X-Team", "a"]])).toEqual({ "x-team": "a" });
+    expect(toHeaderRecord({ "Content-Length": 42 })).toEqual({
+      "content-length": "42",
+    });
+    expect(toHeaderRecord(undefined)).toEqual({});
+  });
+});
+
+describe("isPlainObject", () => {
+  it("should only accept object literals", () => {
+    expect(isPlainObject({ a: 1 })).toBe(true);
+    expect(isPlainObject([])).toBe(false);
+    expect(isPlainObject(new Date())).toBe(false);
+    expect(isPlainObject(null)).toBe(false);
+  });
+});
+
+describe("escapeRegExp", () => {
+  it("should match the text literally", () => {
+    const pattern = new RegExp(`^${escapeRegExp("/a.b/(c)?[d]*")}$`);
+    expect(pattern.test("/a.b/(c)?[d]*")).toBe(true);
+    expect(pattern.test("/axb/c")).toBe(false);
+  });
+});
+
+describe("mergeHeaders", () => {
+  it("should let later headers win regardless of case", () => {
+    expect(
+      mergeHeaders(
+        { Accept: "application/json", "X-Team": "a" },
+        { accept: "text/html" }
+      )
+    ).toEqual({ "X-Team": "a", accept: "text/html" });
+  });
+
+  it("should remove headers overridden with undefined", () => {
+    expect(
+      mergeHeaders(
+        { Authorization: "Bearer t", Accept: "*/*" },
+        {
+          authorization: undefined,
+        }
+      )
+    ).toEqual({ Accept: "*/*" });
+  });
+
+  it("should return either side when the other is missing", () => {
+    const headers = { Accept: "*/*" };
+    expect(mergeHeaders(undefined, headers)).toBe(headers);
+    expect(mergeHeaders(headers, undefined)).toBe(headers);
+    expect(mergeHeaders(undefined, undefined)).toBeUndefined();
+  });
+
+  it("should accept Headers instances", () => {
+    expect(
+      mergeHeaders(
+        { Accept: "*/*" },
+        new Headers({ Authorization: "Bearer t", accept: "text/csv" })
+      )
+    ).toEqual({ authorization: "Bearer t", accept: "text/csv" });
+    expect(mergeHeaders(undefined, new Headers({ "X-Team": "a" }))).toEqual({
+      "x-team": "a",
+    });
+  });
+});
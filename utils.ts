@@ -1,53 +1,184 @@
-import { ContentType } from "./types";
+import { Codec, ContentType, ProblemDetails, ResponseParser } from "./types";
+import { ClientError, HttpError, HttpErrorInit, ServerError } from "./errors";
+import { EventStream } from "./sse";
+import { NdjsonStream } from "./ndjson";
 
-export const getContentType = (headers: Headers): ContentType => {
-  const contentType = headers.get("Content-Type")?.split(";")[0];
-  const [type, subtype] = contentType?.split("/") ?? [];
+export type MediaType = {
+  type: string;
+  subtype: string;
+  // the structured syntax suffix, e.g. "json" for application/problem+json
+  suffix?: string;
+  parameters: Record<string, string>;
+};
+
+export const parseMediaType = (
+  value: string | null | undefined
+): MediaType | undefined => {
+  const [essence, ...params] = (value ?? "").split(";");
+  const match = /^([\w!#$&^.+-]+)\/([\w!#$&^.+-]+)$/.exec(
+    essence.trim().toLowerCase()
+  );
+  if (!match) {
+    return undefined;
+  }
+  const [, type, subtype] = match;
+  const plus = subtype.lastIndexOf("+");
+  const parameters: Record<string, string> = {};
+  params.forEach((param) => {
+    const separator = param.indexOf("=");
+    const name = param.slice(0, separator).trim().toLowerCase();
+    if (separator !== -1 && name && !(name in parameters)) {
+      parameters[name] = param
+        .slice(separator + 1)
+        .trim()
+        .replace(/^"(.*)"$/, "$1")
+        .replace(/\\(.)/g, "$1");
+    }
+  });
+  return {
+    type,
+    subtype,
+    suffix: plus === -1 ? undefined : subtype.slice(plus + 1),
+    parameters,
+  };
+};
 
-  if (!type && !subtype) {
+const NDJSON_SUBTYPES = ["x-ndjson", "ndjson", "jsonl", "x-jsonlines"];
+const BINARY_TYPES = ["image", "audio", "video", "font", "model"];
+
+export const getContentType = (headers: Headers): ContentType => {
+  const mediaType = parseMediaType(headers.get("Content-Type"));
+  if (!mediaType) {
     return "text";
   }
-  if (type === "application" && subtype === "json") {
-    return "json";
+  const { type, subtype, suffix } = mediaType;
+
+  if (type === "text" && subtype === "event-stream") {
+    return "eventStream";
   }
-  if (type === "application" && subtype === "bytes") {
-    return "bytes";
+  if (type === "application" && NDJSON_SUBTYPES.includes(subtype)) {
+    return "ndjson";
   }
-  if (type === "application" && subtype === "form-data") {
+  if (
+    subtype === "json" ||
+    suffix === "json" ||
+    (type === "text" && subtype === "x-json")
+  ) {
+    return "json";
+  }
+  if (
+    (type === "multipart" && subtype === "form-data") ||
+    (type === "application" && subtype === "x-www-form-urlencoded")
+  ) {
     return "formData";
   }
-  if (type === "application" && subtype === "arraybuffer") {
-    return "arrayBuffer";
+  if (subtype === "html" || subtype === "xhtml+xml") {
+    return "html";
+  }
+  if (subtype === "xml" || suffix === "xml") {
+    return "xml";
   }
-  if (type === "application" && subtype === "blob") {
+  if (
+    BINARY_TYPES.includes(type) ||
+    (type === "application" && subtype === "octet-stream")
+  ) {
     return "blob";
   }
   return "text";
 };
 
-export const handleError = (statusCode: number, statusText: string) => {
+// Keys are media types, optionally with a wildcard subtype ("image/*").
+// An exact match wins over a wildcard.
+const findParser = (
+  headers: Headers,
+  parsers: Record<string, ResponseParser> | undefined
+): ResponseParser | undefined => {
+  const mediaType = parsers && parseMediaType(headers.get("Content-Type"));
+  if (!parsers || !mediaType) {
+    return undefined;
+  }
+  const { type, subtype } = mediaType;
+  const match = (pattern: string) =>
+    Object.keys(parsers).find((key) => key.trim().toLowerCase() === pattern);
+  const key = match(`${type}/${subtype}`) ?? match(`${type}/*`);
+  return key === undefined ? undefined : parsers[key];
+};
+
+export type ErrorContext = {
+  response?: Response;
+  codec?: Codec;
+  parsers?: Record<string, ResponseParser>;
+  problem?: ProblemDetails;
+  method?: string;
+  url?: string;
+};
+
+const describeProblem = (problem: ProblemDetails | undefined) => {
+  const { title, detail } = problem ?? {};
+  if (title && detail) {
+    return `${title}: ${detail}`;
+  }
+  return title || detail || undefined;
+};
+
+export const handleError = (
+  statusCode: number,
+  statusText: string,
+  context: ErrorContext = {}
+): never => {
+  const { response, codec, parsers, problem, method, url } = context;
+  const init: HttpErrorInit = {
+    status: statusCode,
+    statusText,
+    headers: response?.headers,
+    method,
+    url,
+    problem,
+    readBody: response
+      ? () => getResponseType(response, codec, { parsers })
+      : undefined,
+  };
+
+  const description = describeProblem(problem) ?? statusText ?? "Unknown";
+
   if (statusCode >= 400 && statusCode <= 499) {
-    throw new Error(
-      `Client error: [${statusCode}] (${statusText ?? "Unknown"})`
+    throw new ClientError(
+      `Client error: [${statusCode}] (${description})`,
+      init
     );
   }
   if (statusCode >= 500 && statusCode <= 599) {
-    throw new Error(
-      `Server error: [${statusCode}] (${statusText ?? "Unknown"})`
+    throw new ServerError(
+      `Server error: [${statusCode}] (${description})`,
+      init
     );
   }
-  throw new Error(
-    `Unknown error: [${statusCode}] (${statusText ?? "Unknown"})`
-  );
+  throw new HttpError(`Unknown error: [${statusCode}] (${description})`, init);
+};
+
+export type ResponseTypeOptions = {
+  parsers?: Record<string, ResponseParser>;
+  responseType?: ContentType;
 };
 
 export const getResponseType = <T = unknown>(
-  response: Response
+  response: Response,
+  codec?: Codec,
+  options: ResponseTypeOptions = {}
 ): Promise<T> => {
-  const contentType = getContentType(response.headers);
+  const parser = options.responseType
+    ? undefined
+    : findParser(response.headers, options.parsers);
+  if (parser) {
+    return Promise.resolve(parser(response) as T);
+  }
+  const contentType = options.responseType ?? getContentType(response.headers);
 
   switch (contentType) {
     case "json":
+      if (codec) {
+        return response.text().then((text) => codec.decode(text) as T);
+      }
       return response.json() as Promise<T>;
     case "text":
       return response.text() as Promise<T>;
@@ -59,6 +190,10 @@ export const getResponseType = <T = unknown>(
       return response.bytes() as Promise<T>;
     case "formData":
       return response.formData() as Promise<T>;
+    case "eventStream":
+      return Promise.resolve(new EventStream(response.body) as T);
+    case "ndjson":
+      return Promise.resolve(new NdjsonStream(response.body, { codec }) as T);
     case "xml":
     case "html":
       return response.text() as Promise<T>;
@@ -66,3 +201,87 @@ export const getResponseType = <T = unknown>(
       return response.text() as Promise<T>;
   }
 };
+
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+export const getHeader = (
+  headers: Record<string, any> | undefined,
+  name: string
+): string | undefined => {
+  const key = Object.keys(headers ?? {}).find(
+    (header) => header.toLowerCase() === name.toLowerCase()
+  );
+  const value = key === undefined ? undefined : headers?.[key];
+  return value === undefined || value === null ? undefined : String(value);
+};
+
+// what redacted headers, query parameters and body fields read as
+export const REDACTED = "[REDACTED]";
+
+// Content types whose bodies are readable as text, streaming ones included.
+export const TEXT_TYPE =
+  /^text\/|[/+](json|xml|javascript|x-www-form-urlencoded)|ndjson|jsonl/i;
+
+export const isPlainObject = (
+  value: unknown
+): value is Record<string, unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+// Header names come back lowercased, as Headers normalises them.
+export const toHeaderRecord = (
+  headers?: HeadersInit | Record<string, any>
+): Record<string, string> => {
+  const record: Record<string, string> = {};
+  new Headers(headers as HeadersInit).forEach((value, name) => {
+    record[name] = value;
+  });
+  return record;
+};
+
+export const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// A Headers instance would lose its entries when spread.
+const toSpreadable = (headers: Record<string, any> | undefined) =>
+  headers instanceof Headers ? toHeaderRecord(headers) : headers;
+
+// Later headers win regardless of case; an undefined value removes a header.
+export const mergeHeaders = (
+  baseHeaders: Record<string, any> | undefined,
+  overrideHeaders: Record<string, any> | undefined
+): Record<string, any> | undefined => {
+  const base = toSpreadable(baseHeaders);
+  const override = toSpreadable(overrideHeaders);
+  if (!base || !override) {
+    return override ?? base;
+  }
+  const merged = { ...base };
+  Object.keys(override).forEach((name) => {
+    Object.keys(merged).forEach((key) => {
+      if (key.toLowerCase() === name.toLowerCase()) {
+        delete merged[key];
+      }
+    });
+    if (override[name] !== undefined) {
+      merged[name] = override[name];
+    }
+  });
+  return merged;
+};
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import type { StandardSchema } from "./types";
+import { validate } from "./validate";
+import { ValidationError } from "./errors";
+
+const numberSchema: StandardSchema<number> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) =>
+      typeof value === "number"
+        ? { value }
+        : { issues: [{ message: "Expected number", path: ["id"] }] },
+  },
+};
+
+describe("validate", () => {
+  it("should return the value from a Standard Schema", async () => {
+    expect(await validate(numberSchema, 1)).toBe(1);
+  });
+
+  it("should support async Standard Schema validation", async () => {
+    const schema: StandardSchema<string> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: async (value) => ({ value: String(value).toUpperCase() }),
+      },
+    };
+    expect(await validate(schema, "a")).toBe("A");
+  });
+
+  it("should treat callable schemas with ~standard as Standard Schemas", async () => {
+    // like ArkType, calling the schema returns errors instead of throwing
+    const schema = Object.assign(
+      (value: unknown) => (typeof value === "number" ? value : "not a number"),
+      { "~standard": numberSchema["~standard"] }
+    );
+
+    expect(await validate(schema, 1)).toBe(1);
+    await expect(validate(schema, "1")).rejects.toThrow(ValidationError);
+  });
+
+  it("should throw ValidationError with the issues and raw data", async () => {
+    const error = await validate(numberSchema, "1", {
+      method: "GET",
+      url: "https://api.example.com/users/1",
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe("Validation failed: id: Expected number");
+    expect(error.issues).toEqual([
+      { message: "Expected number", path: ["id"] },
+    ]);
+    expect(error.data).toBe("1");
+    expect(error.method).toBe("GET");
+    expect(error.url).toBe("https://api.example.com/users/1");
+  });
+
+  it("should format issue paths with key objects", async () => {
+    const schema: StandardSchema = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: () => ({
+          issues: [{ message: "Required", path: [{ key: "users" }, 0] }],
+        }),
+      },
+    };
+
+    await expect(validate(schema, {})).rejects.toThrow(
+      "Validation failed: users.0: Required"
+    );
+  });
+
+  it("should run plain parser functions", async () => {
+    expect(await validate((input) => Number(input), "42")).toBe(42);
+  });
+
+  it("should wrap parser errors in ValidationError", async () => {
+    const cause = new Error("Not a user");
+    const error = await validate(() => {
+      throw cause;
+    }, null).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.issues).toEqual([{ message: "Not a user" }]);
+    expect(error.cause).toBe(cause);
+    expect(error.data).toBeNull();
+  });
+});
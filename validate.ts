@@ -0,0 +1,55 @@
+import type { Schema, StandardSchema, ValidationIssue } from "./types";
+import { ValidationError } from "./errors";
+
+export type ValidationContext = {
+  method?: string;
+  url?: string;
+};
+
+// Some libraries (ArkType) make their schemas callable functions.
+const isStandardSchema = <T>(schema: Schema<T>): schema is StandardSchema<T> =>
+  (typeof schema === "object" || typeof schema === "function") &&
+  schema !== null &&
+  "~standard" in schema;
+
+const formatIssues = (issues: ReadonlyArray<ValidationIssue>) =>
+  issues
+    .map(({ message, path }) => {
+      const keys = path?.map((segment) =>
+        typeof segment === "object" ? segment.key : segment
+      );
+      return keys?.length
+        ? `${keys.map(String).join(".")}: ${message}`
+        : message;
+    })
+    .join("; ");
+
+export const validate = async <T>(
+  schema: Schema<T>,
+  data: unknown,
+  { method, url }: ValidationContext = {}
+): Promise<T> => {
+  if (isStandardSchema(schema)) {
+    const result = await schema["~standard"].validate(data);
+    if (result.issues) {
+      throw new ValidationError(
+        `Validation failed: ${formatIssues(result.issues)}`,
+        { issues: result.issues, data, method, url }
+      );
+    }
+    return result.value;
+  }
+
+  try {
+    return await schema(data);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ValidationError(`Validation failed: ${message}`, {
+      issues: [{ message }],
+      data,
+      method,
+      url,
+      cause: error,
+    });
+  }
+};
@@ -7,7 +7,33 @@ export default defineConfig({
     coverage: {
       provider: "v8",
       reporter: ["text", "json", "html"],
-      include: ["index.ts", "utils.ts"],
+      include: [
+        "index.ts",
+        "utils.ts",
+        "errors.ts",
+        "retry.ts",
+        "timeout.ts",
+        "url.ts",
+        "body.ts",
+        "codec.ts",
+        "validate.ts",
+        "cache.ts",
+        "dedupe.ts",
+        "sse.ts",
+        "ndjson.ts",
+        "progress.ts",
+        "auth.ts",
+        "cookies.ts",
+        "paginate.ts",
+        "ratelimit.ts",
+        "breaker.ts",
+        "mock.ts",
+        "har.ts",
+        "hooks.ts",
+        "tracing.ts",
+        "logger.ts",
+        "problem.ts",
+      ],
     },
   },
 });